@@ -0,0 +1,276 @@
+import { supportsRouting } from '../router.js'
+
+import type { EvPubSubTransport } from '../types.js'
+
+/**
+ * Creates two connected transports sharing the same subject.
+ */
+export type EvPubSubFactory = () =>
+	| [EvPubSubTransport, EvPubSubTransport]
+	| Promise<[EvPubSubTransport, EvPubSubTransport]>
+
+/**
+ * Options for {@link runPubSubConformance}.
+ */
+interface EvConformanceOptions {
+	/** Time (in milliseconds) to wait for a message. Default is 1000 */
+	timeout?: number
+
+	/** Time (in milliseconds) to wait before asserting no message was received. Default is 100 */
+	settle?: number
+}
+
+/**
+ * Result of a single conformance check.
+ */
+export interface EvConformanceResult {
+	name: string
+	passed: boolean
+	// The transport doesn't support subjects, the check wasn't run
+	skipped?: boolean
+	error?: Error
+}
+
+interface EvConformanceContext {
+	a: EvPubSubTransport
+	b: EvPubSubTransport
+	timeout: number
+	settle: number
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function assert(condition: unknown, message: string): asserts condition {
+	if (!condition) {
+		throw new Error(message)
+	}
+}
+
+/**
+ * Collects the messages received by a transport.
+ */
+function collect(transport: EvPubSubTransport) {
+	const received: any[] = []
+	transport.onMessage((msg) => received.push(msg))
+	return received
+}
+
+async function waitFor(received: any[], count: number, timeout: number) {
+	const end = Date.now() + timeout
+
+	while (received.length < count) {
+		if (Date.now() > end) {
+			throw new Error(
+				`Expected ${count} message(s), received ${received.length} in ${timeout}ms`
+			)
+		}
+
+		await sleep(5)
+	}
+}
+
+const checks: Record<string, (ctx: EvConformanceContext) => Promise<void>> = {
+	'delivers messages to other instances': async ({ a, b, timeout }) => {
+		const received = collect(b)
+		await a.send({ type: 'send', value: 1 })
+		await waitFor(received, 1, timeout)
+		assert(received[0]?.value === 1, 'Received an unexpected message')
+	},
+
+	'does not deliver messages to the sender': async ({
+		a,
+		b,
+		timeout,
+		settle,
+	}) => {
+		const own = collect(a)
+		const received = collect(b)
+		await a.send({ type: 'send' })
+		await waitFor(received, 1, timeout)
+		await sleep(settle)
+		assert(own.length === 0, 'Message was delivered back to the sender')
+	},
+
+	'preserves JSON payloads': async ({ a, b, timeout }) => {
+		const payload = {
+			string: 'héllo 👋 "quoted"\nnew line',
+			number: 1.5,
+			boolean: false,
+			null: null,
+			array: [1, 'two', { three: 3 }],
+			nested: { deep: { deeper: ['x'] } },
+		}
+
+		const received = collect(b)
+		await a.send(payload)
+		await waitFor(received, 1, timeout)
+		assert(
+			JSON.stringify(received[0]) === JSON.stringify(payload),
+			'Payload was altered in transit'
+		)
+	},
+
+	'preserves the order of messages': async ({ a, b, timeout }) => {
+		const received = collect(b)
+
+		for (let i = 0; i < 20; i++) {
+			await a.send({ seq: i })
+		}
+
+		await waitFor(received, 20, timeout)
+		assert(
+			received.every((msg, i) => msg?.seq === i),
+			'Messages were delivered out of order'
+		)
+	},
+
+	'replaces the message handler': async ({ a, b, timeout, settle }) => {
+		const first = collect(b)
+		const second = collect(b)
+		await a.send({ type: 'send' })
+		await waitFor(second, 1, timeout)
+		await sleep(settle)
+		assert(first.length === 0, 'Previous handler still receives messages')
+	},
+
+	'stops delivering after unsubscribe': async ({ a, b, settle }) => {
+		const received = collect(b)
+		await b.unsubscribe()
+		await a.send({ type: 'send' })
+		await sleep(settle)
+		assert(received.length === 0, 'Message delivered after unsubscribe')
+	},
+
+	'can publish after unsubscribe': async ({ a, b, timeout }) => {
+		const received = collect(a)
+		await b.unsubscribe()
+		await b.send({ type: 'send' })
+		await waitFor(received, 1, timeout)
+	},
+}
+
+// Checks of the optional subject support, only run when the transport implements it
+const subjectChecks: typeof checks = {
+	'delivers subject messages to subscribers only': async ({
+		a,
+		b,
+		timeout,
+		settle,
+	}) => {
+		const received = collect(b)
+		await b.subscribeTo!('conformance:a')
+		await a.publishTo!('conformance:b', { subject: 'b' })
+		await a.publishTo!('conformance:a', { subject: 'a' })
+		await waitFor(received, 1, timeout)
+		await sleep(settle)
+		assert(
+			received.length === 1 && received[0]?.subject === 'a',
+			'Message of an unsubscribed subject was delivered'
+		)
+	},
+
+	'does not deliver subject messages to the sender': async ({
+		a,
+		b,
+		timeout,
+		settle,
+	}) => {
+		const own = collect(a)
+		const received = collect(b)
+		await a.subscribeTo!('conformance')
+		await b.subscribeTo!('conformance')
+		await a.publishTo!('conformance', { type: 'send' })
+		await waitFor(received, 1, timeout)
+		await sleep(settle)
+		assert(own.length === 0, 'Message was delivered back to the sender')
+	},
+
+	'stops delivering after unsubscribeFrom': async ({ a, b, settle }) => {
+		const received = collect(b)
+		await b.subscribeTo!('conformance')
+		await b.unsubscribeFrom!('conformance')
+		await a.publishTo!('conformance', { type: 'send' })
+		await sleep(settle)
+		assert(received.length === 0, 'Message delivered after unsubscribeFrom')
+	},
+
+	'stops delivering subject messages after unsubscribe': async ({
+		a,
+		b,
+		settle,
+	}) => {
+		const received = collect(b)
+		await b.subscribeTo!('conformance')
+		await b.unsubscribe()
+		await a.publishTo!('conformance', { type: 'send' })
+		await sleep(settle)
+		assert(received.length === 0, 'Message delivered after unsubscribe')
+	},
+}
+
+/**
+ * Runs the shared conformance checks against a {@link EvPubSubTransport} implementation.
+ *
+ * Every check gets a fresh pair of transports from the factory, which are closed afterwards.
+ * Checks of the subject support are skipped when the transport doesn't implement it.
+ * Resolves with the result of every check, it never rejects.
+ *
+ * @param factory - Creates two connected transports
+ * @param opts - Timing options
+ */
+export async function runPubSubConformance(
+	factory: EvPubSubFactory,
+	opts?: EvConformanceOptions
+): Promise<EvConformanceResult[]> {
+	const timeout = opts?.timeout ?? 1000
+	const settle = opts?.settle ?? 100
+	const results: EvConformanceResult[] = []
+
+	const all = { ...checks, ...subjectChecks }
+
+	for (const [name, check] of Object.entries(all)) {
+		let pair: [EvPubSubTransport, EvPubSubTransport] | undefined
+
+		try {
+			pair = await factory()
+
+			if (name in subjectChecks && !supportsRouting(pair[0])) {
+				results.push({ name, passed: true, skipped: true })
+				continue
+			}
+
+			await check({ a: pair[0], b: pair[1], timeout, settle })
+			results.push({ name, passed: true })
+		} catch (error) {
+			results.push({ name, passed: false, error: error as Error })
+		} finally {
+			await Promise.all(pair?.map((t) => t.close().catch(() => {})) || [])
+		}
+	}
+
+	return results
+}
+
+/**
+ * Runs {@link runPubSubConformance} and throws if any check failed.
+ * Meant to be called from the test suite of an adapter.
+ *
+ * @param factory - Creates two connected transports
+ * @param opts - Timing options
+ */
+export async function assertPubSubConformance(
+	factory: EvPubSubFactory,
+	opts?: EvConformanceOptions
+) {
+	const failed = (await runPubSubConformance(factory, opts)).filter(
+		(result) => !result.passed
+	)
+
+	if (failed.length > 0) {
+		throw new Error(
+			failed
+				.map((result) => `${result.name}: ${result.error?.message}`)
+				.join('\n')
+		)
+	}
+}
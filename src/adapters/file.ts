@@ -0,0 +1,91 @@
+import { readFile, rename, writeFile } from 'fs/promises'
+
+import { isNewer } from '../state-store.js'
+
+import type { EvStateStore, EvVersionedState } from '../types.js'
+
+/**
+ * Configuration options for EvFileStateStore
+ */
+interface EvFileStateStoreOptions {
+	/** Path of the JSON file holding the states */
+	path: string
+}
+
+/**
+ * JSON file implementation of {@link EvStateStore}, meant for development.
+ *
+ * The file is read once, then rewritten after every change. Writes go through a temporary
+ * file so a crash never leaves a truncated file. It must not be shared by several processes.
+ */
+export class EvFileStateStore implements EvStateStore {
+	#path: string
+	#states?: Promise<Record<string, EvVersionedState>>
+	#writing: Promise<void> = Promise.resolve()
+
+	constructor(opts: EvFileStateStoreOptions) {
+		this.#path = opts.path
+	}
+
+	#load() {
+		if (!this.#states) {
+			this.#states = readFile(this.#path, 'utf8').then(
+				(raw) => JSON.parse(raw),
+				(error) => {
+					if (error.code === 'ENOENT') return {}
+					throw error
+				}
+			)
+		}
+
+		return this.#states
+	}
+
+	/**
+	 * Queues a write of the whole file, writes never overlap.
+	 */
+	#save(states: Record<string, EvVersionedState>) {
+		const write = this.#writing.then(async () => {
+			const temp = `${this.#path}.tmp`
+
+			await writeFile(temp, JSON.stringify(states, null, 2))
+			await rename(temp, this.#path)
+		})
+
+		// A failed write must not block the next ones
+		this.#writing = write.catch(() => {})
+		return write
+	}
+
+	async get(key: string) {
+		return (await this.#load())[key]
+	}
+
+	async set(key: string, state: EvVersionedState) {
+		const states = await this.#load()
+
+		if (!isNewer(state, states[key])) return
+
+		states[key] = state
+		await this.#save(states)
+	}
+
+	async cas(key: string, expected: number, state: EvVersionedState) {
+		const states = await this.#load()
+
+		if ((states[key]?.version ?? 0) !== expected) return false
+
+		states[key] = state
+		await this.#save(states)
+		return true
+	}
+
+	async delete(key: string) {
+		const states = await this.#load()
+
+		if (!(key in states)) return
+
+		delete states[key]
+		await this.#save(states)
+	}
+}
@@ -0,0 +1,134 @@
+import type { EvPubSubTransport } from '../types.js'
+
+/**
+ * Configuration options for EvMemoryPubSub
+ */
+interface EvMemoryPubSubOptions<T> {
+	/** Subject shared by the connected instances. Default is `evstream` */
+	subject?: string
+
+	/** Optional initial message handler */
+	onMessage?: (message: T) => void
+}
+
+const buses = new Map<string, Set<EvMemoryPubSub<any>>>()
+
+/**
+ * In-process implementation of {@link EvPubSubTransport}.
+ *
+ * Every instance created with the same subject is connected to the same bus,
+ * which makes it possible to run several managers in one process for tests or
+ * to use the library on a single node without any infrastructure.
+ *
+ * - Messages are delivered asynchronously, like a network transport would
+ * - Payloads are copied through JSON so handlers never share references
+ * - Messages are never delivered back to the sender
+ * - Supports subjects, so it can be used with the manager's `routing`
+ */
+export class EvMemoryPubSub<T = unknown> implements EvPubSubTransport<T> {
+	#subject: string
+	#subscribed = true
+	#topics = new Set<string>()
+	#onMessage?: (message: T) => void
+
+	constructor(opts?: EvMemoryPubSubOptions<T>) {
+		this.#subject = opts?.subject || 'evstream'
+		this.#onMessage = opts?.onMessage
+
+		let bus = buses.get(this.#subject)
+
+		if (!bus) {
+			bus = new Set()
+			buses.set(this.#subject, bus)
+		}
+
+		bus.add(this)
+	}
+
+	/**
+	 * Delivers a message received from the bus.
+	 */
+	private deliver(raw: string, topic?: string) {
+		if (this.#subscribed && (topic === undefined || this.#topics.has(topic))) {
+			this.#onMessage?.(JSON.parse(raw) as T)
+		}
+	}
+
+	/**
+	 * Passes a message to the other instances of the bus.
+	 */
+	private broadcast(msg: T, topic?: string) {
+		const bus = buses.get(this.#subject)
+
+		if (!bus || !bus.has(this)) {
+			return
+		}
+
+		const raw = JSON.stringify(msg)
+
+		for (const peer of bus) {
+			if (peer !== this) {
+				queueMicrotask(() => peer.deliver(raw, topic))
+			}
+		}
+	}
+
+	/**
+	 * Publishes a message to the other instances of the subject.
+	 */
+	async send(msg: T) {
+		this.broadcast(msg)
+	}
+
+	/**
+	 * Publishes a message to the other instances subscribed to `subject`.
+	 */
+	async publishTo(subject: string, msg: T) {
+		this.broadcast(msg, subject)
+	}
+
+	/**
+	 * Starts receiving the messages published to `subject`.
+	 */
+	async subscribeTo(subject: string) {
+		this.#topics.add(subject)
+	}
+
+	/**
+	 * Stops receiving the messages published to `subject`.
+	 */
+	async unsubscribeFrom(subject: string) {
+		this.#topics.delete(subject)
+	}
+
+	/**
+	 * Registers or replaces the message handler.
+	 */
+	onMessage(callback: (msg: T) => void) {
+		this.#onMessage = callback
+	}
+
+	/**
+	 * Stops receiving messages. Messages can still be published.
+	 */
+	async unsubscribe() {
+		this.#subscribed = false
+	}
+
+	/**
+	 * Disconnects the instance from the bus.
+	 */
+	async close() {
+		this.#subscribed = false
+
+		const bus = buses.get(this.#subject)
+
+		if (bus) {
+			bus.delete(this)
+
+			if (bus.size === 0) {
+				buses.delete(this.#subject)
+			}
+		}
+	}
+}
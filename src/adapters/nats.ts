@@ -0,0 +1,177 @@
+import { uid } from '../utils.js'
+import { EvEmitter } from '../emitter.js'
+
+import type { EvPubSubEvents, EvPubSubTransport } from '../types.js'
+
+/**
+ * Message received from a NATS subscription.
+ */
+export interface EvNatsMessage {
+	data: Uint8Array
+}
+
+/**
+ * Subset of a NATS subscription used by EvNatsPubSub.
+ */
+export interface EvNatsSubscription {
+	unsubscribe(): void
+}
+
+/**
+ * Subset of a NATS connection (`nats` package) used by EvNatsPubSub.
+ */
+export interface EvNatsConnection {
+	publish(subject: string, data?: Uint8Array): void
+	subscribe(
+		subject: string,
+		opts: { callback: (err: Error | null, msg: EvNatsMessage) => void }
+	): EvNatsSubscription
+	flush?(): Promise<void>
+}
+
+/**
+ * Configuration options for EvNatsPubSub
+ */
+interface EvNatsPubSubOptions<T> {
+	/** NATS subject used for Pub/Sub */
+	subject: string
+
+	/** Connected NATS client */
+	connection: EvNatsConnection
+
+	/** Optional initial message handler */
+	onMessage?: (message: T) => void
+}
+
+/**
+ * NATS implementation of {@link EvPubSubTransport}.
+ *
+ * - Works with any client exposing `publish()` and callback based `subscribe()`, no driver is bundled
+ * - Prevents self-message delivery using instance UID
+ * - The connection is owned by the caller and stays open on `close()`
+ * - Supports subjects (`<subject>.<name>`), so it can be used with the manager's `routing`
+ * - Subscription errors are emitted as `error` events
+ */
+export class EvNatsPubSub<T = unknown> implements EvPubSubTransport<T> {
+	#subject: string
+	#connection: EvNatsConnection
+	#subscriptions = new Map<string, EvNatsSubscription>()
+	#instanceId: string
+	#encoder = new TextEncoder()
+	#decoder = new TextDecoder()
+	#events = new EvEmitter<EvPubSubEvents>()
+	#onMessage?: (message: T) => void
+
+	constructor({ subject, connection, onMessage }: EvNatsPubSubOptions<T>) {
+		this.#subject = subject
+		this.#connection = connection
+		this.#onMessage = onMessage
+		this.#instanceId = uid({ prefix: subject, counter: Math.random() })
+
+		this.listen(this.#subject)
+	}
+
+	/**
+	 * Subscribes to a NATS subject.
+	 */
+	private listen(subject: string) {
+		if (this.#subscriptions.has(subject)) return
+
+		const subscription = this.#connection.subscribe(subject, {
+			callback: (err, msg) => {
+				if (err) {
+					this.#events.emit('error', err)
+					return
+				}
+
+				try {
+					const data = JSON.parse(this.#decoder.decode(msg.data))
+
+					// Ignore messages from the same instance
+					if (data?.uid !== this.#instanceId) {
+						this.#onMessage?.(data.msg as T)
+					}
+				} catch {
+					// Ignore malformed payloads
+				}
+			},
+		})
+
+		this.#subscriptions.set(subject, subscription)
+	}
+
+	/**
+	 * Registers a listener of the `error` events.
+	 */
+	on<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of the `error` events.
+	 */
+	off<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
+	/**
+	 * Publishes a message to the NATS subject.
+	 */
+	async send(msg: T) {
+		this.#connection.publish(
+			this.#subject,
+			this.#encoder.encode(JSON.stringify({ uid: this.#instanceId, msg }))
+		)
+
+		await this.#connection.flush?.()
+	}
+
+	/**
+	 * Publishes a message to the instances subscribed to `subject`.
+	 */
+	async publishTo(subject: string, msg: T) {
+		this.#connection.publish(
+			`${this.#subject}.${subject}`,
+			this.#encoder.encode(JSON.stringify({ uid: this.#instanceId, msg }))
+		)
+
+		await this.#connection.flush?.()
+	}
+
+	/**
+	 * Starts receiving the messages published to `subject`.
+	 */
+	async subscribeTo(subject: string) {
+		this.listen(`${this.#subject}.${subject}`)
+	}
+
+	/**
+	 * Stops receiving the messages published to `subject`.
+	 */
+	async unsubscribeFrom(subject: string) {
+		this.#subscriptions.get(`${this.#subject}.${subject}`)?.unsubscribe()
+		this.#subscriptions.delete(`${this.#subject}.${subject}`)
+	}
+
+	/**
+	 * Registers or replaces the message handler.
+	 */
+	onMessage(callback: (msg: T) => void) {
+		this.#onMessage = callback
+	}
+
+	/**
+	 * Stops receiving messages from the NATS subject and every subscribed subject.
+	 */
+	async unsubscribe() {
+		this.#subscriptions.forEach((subscription) => subscription.unsubscribe())
+		this.#subscriptions.clear()
+	}
+
+	/**
+	 * Stops receiving messages. The connection is owned by the caller.
+	 */
+	async close() {
+		await this.unsubscribe()
+	}
+}
@@ -0,0 +1,176 @@
+import { uid } from '../utils.js'
+import { EvEmitter } from '../emitter.js'
+
+import type { EvPubSubEvents, EvPubSubTransport } from '../types.js'
+
+/**
+ * Notification emitted by a Postgres client, e.g. `pg.Client`.
+ */
+export interface EvPostgresNotification {
+	channel: string
+	payload?: string
+}
+
+/**
+ * Subset of a Postgres client (`pg.Client`, `pg.Pool`) used by EvPostgresPubSub.
+ */
+export interface EvPostgresClient {
+	query(text: string, values?: any[]): Promise<unknown>
+	on(
+		event: 'notification',
+		listener: (msg: EvPostgresNotification) => void
+	): unknown
+	removeListener?(
+		event: 'notification',
+		listener: (msg: EvPostgresNotification) => void
+	): unknown
+}
+
+/**
+ * Configuration options for EvPostgresPubSub
+ */
+interface EvPostgresPubSubOptions<T> {
+	/** Postgres channel name used with `LISTEN` / `NOTIFY` */
+	subject: string
+
+	/**
+	 * Dedicated connection which runs `LISTEN`.
+	 * It must not be a pool, notifications are only received by the connection which listens.
+	 */
+	client: EvPostgresClient
+
+	/** Optional client (e.g. a pool) used to publish. Defaults to `client` */
+	publisher?: EvPostgresClient
+
+	/** Optional initial message handler */
+	onMessage?: (message: T) => void
+}
+
+// Postgres rejects `NOTIFY` payloads of 8000 bytes or more.
+const MAX_PAYLOAD_SIZE = 7999
+
+/**
+ * Postgres `LISTEN` / `NOTIFY` implementation of {@link EvPubSubTransport}.
+ *
+ * - Works with any client exposing `query()` and `notification` events, no driver is bundled
+ * - Prevents self-message delivery using instance UID
+ * - Rejects messages larger than the `NOTIFY` payload limit
+ * - A failed `LISTEN` is emitted as an `error` event and rejects every `send()`
+ */
+export class EvPostgresPubSub<T = unknown> implements EvPubSubTransport<T> {
+	#subject: string
+	#client: EvPostgresClient
+	#publisher: EvPostgresClient
+	#instanceId: string
+	#listening: Promise<void>
+	#listenError?: Error
+	#events = new EvEmitter<EvPubSubEvents>()
+	#onMessage?: (message: T) => void
+
+	constructor({
+		subject,
+		client,
+		publisher,
+		onMessage,
+	}: EvPostgresPubSubOptions<T>) {
+		this.#subject = subject
+		this.#client = client
+		this.#publisher = publisher || client
+		this.#onMessage = onMessage
+		this.#instanceId = uid({ prefix: subject, counter: Math.random() })
+
+		this.onNotification = this.onNotification.bind(this)
+
+		this.#client.on('notification', this.onNotification)
+		this.#listening = this.#client.query(`LISTEN ${this.#identifier()}`).then(
+			() => {},
+			(error) => {
+				this.#listenError = error
+				this.#events.emit('error', error)
+			}
+		)
+	}
+
+	#identifier() {
+		return `"${this.#subject.replace(/"/g, '""')}"`
+	}
+
+	/**
+	 * Registers a listener of the `error` events.
+	 */
+	on<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of the `error` events.
+	 */
+	off<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
+	/**
+	 * Handles notifications of the listening connection.
+	 */
+	private onNotification(msg: EvPostgresNotification) {
+		if (msg.channel !== this.#subject || !msg.payload) {
+			return
+		}
+
+		try {
+			const data = JSON.parse(msg.payload)
+
+			// Ignore messages from the same instance
+			if (data?.uid !== this.#instanceId) {
+				this.#onMessage?.(data.msg as T)
+			}
+		} catch {
+			// Ignore malformed payloads
+		}
+	}
+
+	/**
+	 * Publishes a message with `pg_notify()`.
+	 */
+	async send(msg: T) {
+		const payload = JSON.stringify({ uid: this.#instanceId, msg })
+
+		if (Buffer.byteLength(payload) > MAX_PAYLOAD_SIZE) {
+			throw new RangeError(
+				`Payload of ${Buffer.byteLength(payload)} bytes exceeds the Postgres NOTIFY limit`
+			)
+		}
+
+		await this.#listening
+
+		// Messages of the other instances would never be received
+		if (this.#listenError) throw this.#listenError
+
+		await this.#publisher.query('SELECT pg_notify($1, $2)', [
+			this.#subject,
+			payload,
+		])
+	}
+
+	/**
+	 * Registers or replaces the message handler.
+	 */
+	onMessage(callback: (msg: T) => void) {
+		this.#onMessage = callback
+	}
+
+	/**
+	 * Stops listening to the Postgres channel.
+	 */
+	async unsubscribe() {
+		this.#client.removeListener?.('notification', this.onNotification)
+		await this.#client.query(`UNLISTEN ${this.#identifier()}`)
+	}
+
+	/**
+	 * Stops listening. The clients are owned by the caller and stay connected.
+	 */
+	async close() {
+		await this.unsubscribe()
+	}
+}
@@ -1,5 +1,13 @@
 import Redis, { RedisOptions } from 'ioredis'
 import { uid } from '../utils.js'
+import { EvEmitter } from '../emitter.js'
+import { watchConnections } from './redis-connection.js'
+
+import type {
+	EvConnectionState,
+	EvPubSubEvents,
+	EvPubSubTransport,
+} from '../types.js'
 
 /**
  * Configuration options for EvRedisPubSub
@@ -21,13 +29,20 @@ interface EvRedisPubSubOptions<T> {
  * - Uses separate publisher and subscriber connections
  * - Prevents self-message delivery using instance UID
  * - Typed message payload via generics
+ * - Connection errors and state changes are emitted as `error` and `state` events
+ * - Supports subjects (`<subject>:<name>` channels), so it can be used with the manager's `routing`
+ *
+ * Messages published while the subscriber is disconnected are lost,
+ * use {@link EvRedisStreamPubSub} when they must survive reconnections.
  */
-export class EvRedisPubSub<T = unknown> {
+export class EvRedisPubSub<T = unknown> implements EvPubSubTransport<T> {
 	#subject: string
 	#pub: Redis
 	#sub: Redis
 	#instanceId: string
 	#onMessage?: (message: T) => void
+	#events = new EvEmitter<EvPubSubEvents>()
+	#state: () => EvConnectionState
 
 	constructor({ options, subject, onMessage }: EvRedisPubSubOptions<T>) {
 		this.#pub = new Redis(options)
@@ -35,6 +50,7 @@ export class EvRedisPubSub<T = unknown> {
 		this.#subject = subject
 		this.#onMessage = onMessage
 		this.#instanceId = uid({ prefix: subject, counter: Math.random() })
+		this.#state = watchConnections([this.#pub, this.#sub], this.#events)
 
 		this.init()
 	}
@@ -42,11 +58,10 @@ export class EvRedisPubSub<T = unknown> {
 	/**
 	 * Initializes Redis subscriptions and listeners.
 	 */
-	private async init() {
-		this.#pub.on('error', () => {})
-		this.#sub.on('error', () => {})
-
-		await this.#sub.subscribe(this.#subject)
+	private init() {
+		this.#sub.subscribe(this.#subject).catch((error) => {
+			this.#events.emit('error', error)
+		})
 
 		this.#sub.on('message', (_, raw) => {
 			try {
@@ -62,6 +77,27 @@ export class EvRedisPubSub<T = unknown> {
 		})
 	}
 
+	/**
+	 * Current state of the Redis connections.
+	 */
+	get state() {
+		return this.#state()
+	}
+
+	/**
+	 * Registers a listener of the connection events.
+	 */
+	on<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of the connection events.
+	 */
+	off<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
 	/**
 	 * Publishes a message to the Redis channel.
 	 */
@@ -72,6 +108,30 @@ export class EvRedisPubSub<T = unknown> {
 		)
 	}
 
+	/**
+	 * Publishes a message to the instances subscribed to `subject`.
+	 */
+	async publishTo(subject: string, msg: T) {
+		await this.#pub.publish(
+			`${this.#subject}:${subject}`,
+			JSON.stringify({ uid: this.#instanceId, msg })
+		)
+	}
+
+	/**
+	 * Starts receiving the messages published to `subject`.
+	 */
+	async subscribeTo(subject: string) {
+		await this.#sub.subscribe(`${this.#subject}:${subject}`)
+	}
+
+	/**
+	 * Stops receiving the messages published to `subject`.
+	 */
+	async unsubscribeFrom(subject: string) {
+		await this.#sub.unsubscribe(`${this.#subject}:${subject}`)
+	}
+
 	/**
 	 * Registers or replaces the message handler.
 	 */
@@ -79,6 +139,14 @@ export class EvRedisPubSub<T = unknown> {
 		this.#onMessage = callback
 	}
 
+	/**
+	 * Stops receiving messages from the Redis channel and every subscribed subject.
+	 * The connections stay open so messages can still be published.
+	 */
+	async unsubscribe() {
+		await this.#sub.unsubscribe()
+	}
+
 	/**
 	 * Gracefully closes Redis connections.
 	 */
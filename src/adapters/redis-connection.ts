@@ -0,0 +1,63 @@
+import type Redis from 'ioredis'
+
+import type { EvEmitter } from '../emitter.js'
+import type { EvConnectionState, EvPubSubEvents } from '../types.js'
+
+const priority: EvConnectionState[] = [
+	'connected',
+	'connecting',
+	'reconnecting',
+	'closed',
+]
+
+function connectionState(redis: Redis): EvConnectionState {
+	switch (redis.status) {
+		case 'ready':
+			return 'connected'
+		case 'reconnecting':
+		case 'close':
+			return 'reconnecting'
+		case 'end':
+			return 'closed'
+		default:
+			return 'connecting'
+	}
+}
+
+/**
+ * Forwards the errors of Redis connections to `events` and emits a `state`
+ * event whenever their combined state changes. The combined state is the
+ * worst state of the connections.
+ *
+ * @returns Function returning the current combined state
+ */
+export function watchConnections(
+	connections: Redis[],
+	events: EvEmitter<EvPubSubEvents>
+) {
+	const current = () =>
+		connections
+			.map(connectionState)
+			.reduce((a, b) => (priority.indexOf(a) > priority.indexOf(b) ? a : b))
+
+	let state = current()
+
+	const update = () => {
+		const next = current()
+
+		if (next !== state) {
+			state = next
+			events.emit('state', state)
+		}
+	}
+
+	for (const redis of connections) {
+		redis.on('error', (error: Error) => events.emit('error', error))
+
+		for (const event of ['ready', 'close', 'reconnecting', 'end']) {
+			redis.on(event, update)
+		}
+	}
+
+	return () => state
+}
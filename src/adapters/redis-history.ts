@@ -0,0 +1,128 @@
+import Redis, { RedisOptions } from 'ioredis'
+
+import { EvEmitter } from '../emitter.js'
+import { historyAfter } from '../history.js'
+import { watchConnections } from './redis-connection.js'
+
+import type {
+	EvConnectionState,
+	EvHistoryStore,
+	EvMessage,
+	EvPubSubEvents,
+} from '../types.js'
+
+/**
+ * Configuration options for EvRedisHistory
+ */
+interface EvRedisHistoryOptions {
+	/** Redis connection options */
+	options?: RedisOptions
+
+	/** Prefix used for the Redis list keys. Default is `evstream:history` */
+	prefix?: string
+
+	/** Max number of messages kept per channel. Default is 100 */
+	maxLength?: number
+
+	/** Optional expiry (in seconds) of a channel history after its last message */
+	ttl?: number
+}
+
+/**
+ * Redis-based implementation of {@link EvHistoryStore}.
+ *
+ * Every channel is stored as a capped Redis list, so the history
+ * is shared by all instances connected to the same Redis.
+ * Connection errors and state changes are emitted as `error` and `state` events.
+ */
+export class EvRedisHistory implements EvHistoryStore {
+	readonly shared = true
+
+	#redis: Redis
+	#prefix: string
+	#maxLength: number
+	#ttl?: number
+	#events = new EvEmitter<EvPubSubEvents>()
+	#state: () => EvConnectionState
+
+	constructor(opts?: EvRedisHistoryOptions) {
+		this.#redis = new Redis(opts?.options)
+		this.#prefix = opts?.prefix || 'evstream:history'
+		this.#maxLength = opts?.maxLength || 100
+		this.#ttl = opts?.ttl
+		this.#state = watchConnections([this.#redis], this.#events)
+	}
+
+	#key(channel: string) {
+		return `${this.#prefix}:${channel}`
+	}
+
+	/**
+	 * Current state of the Redis connection.
+	 */
+	get state() {
+		return this.#state()
+	}
+
+	/**
+	 * Registers a listener of the connection events.
+	 */
+	on<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of the connection events.
+	 */
+	off<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
+	/**
+	 * Appends a message to the channel list and trims it to `maxLength`.
+	 *
+	 * @param channel - Channel name
+	 * @param msg - Message sent to the channel
+	 */
+	async append(channel: string, msg: EvMessage) {
+		const key = this.#key(channel)
+		const pipeline = this.#redis
+			.multi()
+			.rpush(key, JSON.stringify(msg))
+			.ltrim(key, -this.#maxLength, -1)
+
+		if (this.#ttl) {
+			pipeline.expire(key, this.#ttl)
+		}
+
+		await pipeline.exec()
+	}
+
+	/**
+	 * Returns the channel messages sent after `lastId`.
+	 *
+	 * @param channel - Channel name
+	 * @param lastId - Last event id received by the client
+	 */
+	async range(channel: string, lastId: string) {
+		const raw = await this.#redis.lrange(this.#key(channel), 0, -1)
+		const messages: EvMessage[] = []
+
+		for (const item of raw) {
+			try {
+				messages.push(JSON.parse(item))
+			} catch {
+				// Ignore malformed payloads
+			}
+		}
+
+		return historyAfter(messages, lastId)
+	}
+
+	/**
+	 * Gracefully closes the Redis connection.
+	 */
+	async close() {
+		await this.#redis.quit()
+	}
+}
@@ -0,0 +1,122 @@
+import Redis, { RedisOptions } from 'ioredis'
+
+import { EvEmitter } from '../emitter.js'
+import { watchConnections } from './redis-connection.js'
+
+import type {
+	EvConnectionState,
+	EvPresenceMember,
+	EvPresenceStore,
+	EvPubSubEvents,
+} from '../types.js'
+
+/**
+ * Configuration options for EvRedisPresenceStore
+ */
+interface EvRedisPresenceStoreOptions {
+	/** Redis connection options */
+	options?: RedisOptions
+
+	/** Prefix used for the Redis hash keys. Default is `evstream:presence` */
+	prefix?: string
+}
+
+/**
+ * Redis-based implementation of {@link EvPresenceStore}.
+ *
+ * Members of a channel are stored in a Redis hash shared by all instances.
+ * Every entry holds its expiry time, so members of a crashed instance are
+ * dropped once they stop being refreshed.
+ * Connection errors and state changes are emitted as `error` and `state` events.
+ */
+export class EvRedisPresenceStore implements EvPresenceStore {
+	#redis: Redis
+	#prefix: string
+	#events = new EvEmitter<EvPubSubEvents>()
+	#state: () => EvConnectionState
+
+	constructor(opts?: EvRedisPresenceStoreOptions) {
+		this.#redis = new Redis(opts?.options)
+		this.#prefix = opts?.prefix || 'evstream:presence'
+		this.#state = watchConnections([this.#redis], this.#events)
+	}
+
+	#key(channel: string) {
+		return `${this.#prefix}:${channel}`
+	}
+
+	/**
+	 * Current state of the Redis connection.
+	 */
+	get state() {
+		return this.#state()
+	}
+
+	/**
+	 * Registers a listener of the connection events.
+	 */
+	on<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of the connection events.
+	 */
+	off<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
+	async set(channel: string, member: EvPresenceMember, ttl: number) {
+		const key = this.#key(channel)
+
+		// The hash expires with its last refreshed member, e.g. once every instance crashed
+		await this.#redis
+			.multi()
+			.hset(
+				key,
+				member.id,
+				JSON.stringify({ member, expiresAt: Date.now() + ttl })
+			)
+			.pexpire(key, ttl)
+			.exec()
+	}
+
+	async remove(channel: string, id: string) {
+		await this.#redis.hdel(this.#key(channel), id)
+	}
+
+	async members(channel: string) {
+		const entries = await this.#redis.hgetall(this.#key(channel))
+		const now = Date.now()
+		const expired: string[] = []
+		const result: EvPresenceMember[] = []
+
+		for (const [id, raw] of Object.entries(entries)) {
+			try {
+				const entry = JSON.parse(raw)
+
+				if (entry.expiresAt > now) {
+					result.push(entry.member)
+					continue
+				}
+			} catch {
+				// Malformed entries are removed as well
+			}
+
+			expired.push(id)
+		}
+
+		if (expired.length > 0) {
+			await this.#redis.hdel(this.#key(channel), ...expired)
+		}
+
+		return result
+	}
+
+	/**
+	 * Gracefully closes the Redis connection.
+	 */
+	async close() {
+		await this.#redis.quit()
+	}
+}
@@ -0,0 +1,143 @@
+import Redis, { RedisOptions } from 'ioredis'
+
+import { EvEmitter } from '../emitter.js'
+import { watchConnections } from './redis-connection.js'
+
+import type {
+	EvConnectionState,
+	EvPubSubEvents,
+	EvStateStore,
+	EvVersionedState,
+} from '../types.js'
+
+/**
+ * Configuration options for EvRedisStateStore
+ */
+interface EvRedisStateStoreOptions {
+	/** Redis connection options */
+	options?: RedisOptions
+
+	/** Key of the Redis hash holding the states. Default is `evstream:states` */
+	key?: string
+}
+
+// Stores ARGV[2] unless the stored value has a newer version, ties are broken by the writing node
+const SET_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], ARGV[1])
+if current then
+	local state = cjson.decode(current)
+	local version = tonumber(ARGV[3])
+	if state.version > version or (state.version == version and (state.node or '') >= ARGV[4]) then
+		return 0
+	end
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return 1
+`
+
+// Stores ARGV[2] only if the stored version is ARGV[3]
+const CAS_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], ARGV[1])
+local version = 0
+if current then
+	version = cjson.decode(current).version
+end
+if version ~= tonumber(ARGV[3]) then
+	return 0
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return 1
+`
+
+/**
+ * Redis-based implementation of {@link EvStateStore}.
+ *
+ * Every state is a field of a single Redis hash shared by all instances.
+ * Writes are checked atomically with Lua scripts, so an older version never
+ * replaces a newer one.
+ * Connection errors and state changes are emitted as `error` and `state` events.
+ */
+export class EvRedisStateStore implements EvStateStore {
+	readonly shared = true
+
+	#redis: Redis
+	#key: string
+	#events = new EvEmitter<EvPubSubEvents>()
+	#state: () => EvConnectionState
+
+	constructor(opts?: EvRedisStateStoreOptions) {
+		this.#redis = new Redis(opts?.options)
+		this.#key = opts?.key || 'evstream:states'
+		this.#state = watchConnections([this.#redis], this.#events)
+	}
+
+	/**
+	 * Current state of the Redis connection.
+	 */
+	get state() {
+		return this.#state()
+	}
+
+	/**
+	 * Registers a listener of the connection events.
+	 */
+	on<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of the connection events.
+	 */
+	off<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
+	async get(key: string): Promise<EvVersionedState | undefined> {
+		const raw = await this.#redis.hget(this.#key, key)
+
+		if (!raw) return
+
+		try {
+			return JSON.parse(raw)
+		} catch {
+			// Malformed entries are treated as missing
+			return
+		}
+	}
+
+	async set(key: string, state: EvVersionedState) {
+		await this.#redis.eval(
+			SET_SCRIPT,
+			1,
+			this.#key,
+			key,
+			JSON.stringify(state),
+			state.version,
+			state.node || ''
+		)
+	}
+
+	async cas(key: string, expected: number, state: EvVersionedState) {
+		const stored = await this.#redis.eval(
+			CAS_SCRIPT,
+			1,
+			this.#key,
+			key,
+			JSON.stringify(state),
+			expected
+		)
+
+		return stored === 1
+	}
+
+	async delete(key: string) {
+		await this.#redis.hdel(this.#key, key)
+	}
+
+	/**
+	 * Gracefully closes the Redis connection.
+	 */
+	async close() {
+		await this.#redis.quit()
+	}
+}
@@ -0,0 +1,324 @@
+import Redis, { RedisOptions } from 'ioredis'
+import { uid } from '../utils.js'
+import { EvEmitter } from '../emitter.js'
+import { watchConnections } from './redis-connection.js'
+
+import type {
+	EvConnectionState,
+	EvPubSubEvents,
+	EvPubSubTransport,
+} from '../types.js'
+
+/**
+ * Configuration options for EvRedisStreamPubSub
+ */
+interface EvRedisStreamPubSubOptions<T> {
+	/** Redis stream key */
+	subject: string
+
+	/** Redis connection options */
+	options?: RedisOptions
+
+	/**
+	 * Consumer group of the instance. Defaults to a random name which is removed on `close()`.
+	 * Use a stable name (e.g. the hostname) to also resume after a process restart.
+	 */
+	group?: string
+
+	/** Approximate max number of entries kept in the stream. Default is 10000 */
+	maxLength?: number
+
+	/** Max number of entries read at once. Default is 100 */
+	count?: number
+
+	/** Time (in milliseconds) a read blocks waiting for entries. Default is 5000 */
+	block?: number
+
+	/** Delay (in milliseconds) before reading again after a failure. Default is 1000 */
+	retryDelay?: number
+
+	/**
+	 * Random consumer groups of the stream whose consumers were idle for this time (in milliseconds)
+	 * are removed at startup, they are left by instances which stopped without `close()`.
+	 * Must be greater than `block`. Default is 3600000 (1 hour)
+	 */
+	idleGroupTtl?: number
+
+	/** Optional initial message handler */
+	onMessage?: (message: T) => void
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Prefix of the random consumer groups, which tells them apart from the named ones
+const EPHEMERAL_GROUP = 'evstream-ephemeral:'
+
+/**
+ * Converts a flat `[key, value, ...]` reply of `XINFO` to an object.
+ */
+const toRecord = (reply: unknown[]) => {
+	const record: Record<string, unknown> = {}
+
+	for (let i = 0; i < reply.length; i += 2) {
+		record[String(reply[i])] = reply[i + 1]
+	}
+
+	return record
+}
+
+/**
+ * Redis Streams implementation of {@link EvPubSubTransport}.
+ *
+ * - Messages are appended with `XADD` and read by every instance through its own consumer group
+ * - Entries are acknowledged with `XACK` once handled, unacknowledged entries are read again
+ * - Reading resumes from the last delivered entry after a reconnection or failover
+ * - Random consumer groups left by crashed instances are removed once idle
+ * - Prevents self-message delivery using instance UID
+ * - Connection errors and state changes are emitted as `error` and `state` events
+ */
+export class EvRedisStreamPubSub<T = unknown> implements EvPubSubTransport<T> {
+	#subject: string
+	#pub: Redis
+	#sub: Redis
+	#instanceId: string
+	#group: string
+	#ephemeral: boolean
+	#maxLength: number
+	#count: number
+	#block: number
+	#retryDelay: number
+	#idleGroupTtl: number
+	#reading = false
+	#lastId = '$'
+	#ready: Promise<void>
+	#onMessage?: (message: T) => void
+	#events = new EvEmitter<EvPubSubEvents>()
+	#state: () => EvConnectionState
+
+	constructor(opts: EvRedisStreamPubSubOptions<T>) {
+		this.#pub = new Redis(opts.options)
+		this.#sub = new Redis(opts.options)
+		this.#subject = opts.subject
+		this.#onMessage = opts.onMessage
+		this.#instanceId = uid({ prefix: opts.subject, counter: Math.random() })
+		this.#group = opts.group || `${EPHEMERAL_GROUP}${this.#instanceId}`
+		this.#ephemeral = !opts.group
+		this.#maxLength = opts.maxLength ?? 10000
+		this.#count = opts.count ?? 100
+		this.#block = opts.block ?? 5000
+		this.#retryDelay = opts.retryDelay ?? 1000
+		this.#idleGroupTtl = opts.idleGroupTtl ?? 3600000
+		this.#state = watchConnections([this.#pub, this.#sub], this.#events)
+
+		this.#reading = true
+		this.#ready = this.createGroup('$').catch((error) => {
+			this.#events.emit('error', error)
+		})
+
+		this.#ready.then(() => {
+			this.read()
+			this.removeIdleGroups().catch((error) => {
+				this.#events.emit('error', error)
+			})
+		})
+	}
+
+	/**
+	 * Removes the random consumer groups whose consumers were all idle for longer than `idleGroupTtl`.
+	 * Groups without consumers are kept, their instance may not have read yet.
+	 */
+	private async removeIdleGroups() {
+		const groups = (await this.#pub.xinfo(
+			'GROUPS',
+			this.#subject
+		)) as unknown[][]
+
+		for (const reply of groups) {
+			const name = String(toRecord(reply).name)
+
+			if (!name.startsWith(EPHEMERAL_GROUP) || name === this.#group) continue
+
+			const consumers = (await this.#pub
+				.xinfo('CONSUMERS', this.#subject, name)
+				.catch((error) => {
+					// Another starting instance removed it meanwhile
+					if (String(error?.message).startsWith('NOGROUP')) return []
+					throw error
+				})) as unknown[][]
+
+			const idle = consumers.every(
+				(consumer) => Number(toRecord(consumer).idle) > this.#idleGroupTtl
+			)
+
+			if (consumers.length > 0 && idle) {
+				await this.#pub.xgroup('DESTROY', this.#subject, name)
+			}
+		}
+	}
+
+	/**
+	 * Creates the consumer group of the instance starting after `id`.
+	 */
+	private async createGroup(id: string) {
+		try {
+			await this.#pub.xgroup(
+				'CREATE',
+				this.#subject,
+				this.#group,
+				id,
+				'MKSTREAM'
+			)
+		} catch (error) {
+			// The group already exists, reading resumes from its last delivered entry
+			if (!String((error as Error)?.message).startsWith('BUSYGROUP')) {
+				throw error
+			}
+		}
+	}
+
+	/**
+	 * Reads the stream until the instance unsubscribes.
+	 * Entries left unacknowledged by a previous read are handled first.
+	 */
+	private async read() {
+		let pending = true
+
+		while (this.#reading) {
+			try {
+				const result = (await this.#sub.xreadgroup(
+					'GROUP',
+					this.#group,
+					this.#instanceId,
+					'COUNT',
+					this.#count,
+					'BLOCK',
+					this.#block,
+					'STREAMS',
+					this.#subject,
+					pending ? '0' : '>'
+				)) as [string, [string, string[]][]][] | null
+
+				const entries = result?.[0]?.[1] || []
+
+				if (pending && entries.length === 0) {
+					pending = false
+					continue
+				}
+
+				if (entries.length > 0) {
+					entries.forEach(([id, fields]) => this.handle(id, fields))
+
+					await this.#pub.xack(
+						this.#subject,
+						this.#group,
+						...entries.map(([id]) => id)
+					)
+				}
+			} catch (error) {
+				if (!this.#reading) break
+
+				this.#events.emit('error', error as Error)
+				pending = true
+
+				await sleep(this.#retryDelay)
+
+				// The group is lost when Redis fails over to a replica which didn't receive it
+				if (String((error as Error)?.message).startsWith('NOGROUP')) {
+					await this.createGroup(this.#lastId).catch(() => {})
+				}
+			}
+		}
+	}
+
+	/**
+	 * Delivers a stream entry to the message handler.
+	 */
+	private handle(id: string, fields: string[]) {
+		this.#lastId = id
+
+		const entry: Record<string, string> = {}
+
+		for (let i = 0; i < fields.length; i += 2) {
+			entry[fields[i]] = fields[i + 1]
+		}
+
+		// Ignore messages from the same instance
+		if (entry.uid === this.#instanceId) return
+
+		try {
+			this.#onMessage?.(JSON.parse(entry.msg) as T)
+		} catch (error) {
+			this.#events.emit('error', error as Error)
+		}
+	}
+
+	/**
+	 * Current state of the Redis connections.
+	 */
+	get state() {
+		return this.#state()
+	}
+
+	/**
+	 * Registers a listener of the connection events.
+	 */
+	on<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of the connection events.
+	 */
+	off<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
+	/**
+	 * Appends a message to the Redis stream.
+	 */
+	async send(msg: T) {
+		await this.#pub.xadd(
+			this.#subject,
+			'MAXLEN',
+			'~',
+			this.#maxLength,
+			'*',
+			'uid',
+			this.#instanceId,
+			'msg',
+			JSON.stringify(msg)
+		)
+	}
+
+	/**
+	 * Registers or replaces the message handler.
+	 */
+	onMessage(callback: (msg: T) => void) {
+		this.#onMessage = callback
+	}
+
+	/**
+	 * Stops reading the Redis stream. Messages can still be published.
+	 * Random consumer groups are removed, named groups are kept so reading can resume later.
+	 */
+	async unsubscribe() {
+		if (!this.#reading) return
+
+		this.#reading = false
+		this.#sub.disconnect()
+
+		await this.#ready
+
+		if (this.#ephemeral) {
+			await this.#pub.xgroup('DESTROY', this.#subject, this.#group)
+		}
+	}
+
+	/**
+	 * Gracefully closes Redis connections.
+	 */
+	async close() {
+		await this.unsubscribe()
+		await this.#pub.quit()
+	}
+}
@@ -1,8 +1,19 @@
 import Redis, { RedisOptions } from 'ioredis'
 import { EvRedisPubSub } from './pub-sub.js'
-import { EvStateAdapter } from '../types.js'
+import { EvRedisHistory } from './redis-history.js'
+import { EvRedisPresenceStore } from './redis-presence.js'
+import { EvRedisStateStore } from './redis-state.js'
+import { EvRedisStreamPubSub } from './redis-stream.js'
+import { watchConnections } from './redis-connection.js'
+import { EvEmitter } from '../emitter.js'
 import { uid } from '../utils.js'
 
+import type {
+	EvConnectionState,
+	EvPubSubEvents,
+	EvStateAdapter,
+} from '../types.js'
+
 /**
  * Redis-based implementation of {@link EvStateAdapter}.
  *
@@ -11,6 +22,7 @@ import { uid } from '../utils.js'
  * - Channel-based subscriptions
  * - Multiple listeners per channel
  * - Self-message filtering via instance ID
+ * - Connection errors and state changes emitted as `error` and `state` events
  *
  * Designed to be used by EvState / EvStateManager for
  * cross-process state synchronization.
@@ -31,6 +43,12 @@ class EvRedisAdapter implements EvStateAdapter {
 	/** Unique identifier for this adapter instance */
 	#instanceId: string
 
+	/** Connection events */
+	#events = new EvEmitter<EvPubSubEvents>()
+
+	/** Returns the combined state of the connections */
+	#state: () => EvConnectionState
+
 	/**
 	 * Creates a new Redis state adapter.
 	 *
@@ -41,6 +59,7 @@ class EvRedisAdapter implements EvStateAdapter {
 		this.#sub = new Redis(options)
 		this.#listeners = new Map()
 		this.#instanceId = uid({ counter: Math.ceil(Math.random() * 100) })
+		this.#state = watchConnections([this.#pub, this.#sub], this.#events)
 
 		this.#sub.on('message', (channel, message) => {
 			const handlers = this.#listeners.get(channel)
@@ -61,6 +80,27 @@ class EvRedisAdapter implements EvStateAdapter {
 		})
 	}
 
+	/**
+	 * Current state of the Redis connections.
+	 */
+	get state() {
+		return this.#state()
+	}
+
+	/**
+	 * Registers a listener of the connection events.
+	 */
+	on<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of the connection events.
+	 */
+	off<K extends keyof EvPubSubEvents>(event: K, listener: EvPubSubEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
 	/**
 	 * Publishes a message to a Redis channel.
 	 *
@@ -90,22 +130,41 @@ class EvRedisAdapter implements EvStateAdapter {
 		channel: string,
 		onMessage: (message: any) => void
 	): Promise<void> {
-		if (!this.#listeners.has(channel)) {
-			this.#listeners.set(channel, new Set())
-			await this.#sub.subscribe(channel)
+		const listeners = this.#listeners.get(channel)
+
+		if (listeners) {
+			listeners.add(onMessage)
+			return
 		}
 
-		this.#listeners.get(channel)!.add(onMessage)
+		this.#listeners.set(channel, new Set([onMessage]))
+		await this.#sub.subscribe(channel)
 	}
 
 	/**
-	 * Unsubscribes from a Redis channel and removes all listeners.
+	 * Removes a listener of a Redis channel, or all of them when `onMessage` is omitted.
+	 *
+	 * The Redis subscription is removed with the last listener.
 	 *
 	 * @param channel - Redis channel name
+	 * @param onMessage - Callback passed to `subscribe`
 	 */
-	async unsubscribe(channel: string): Promise<void> {
-		await this.#sub.unsubscribe(channel)
+	async unsubscribe(
+		channel: string,
+		onMessage?: (message: any) => void
+	): Promise<void> {
+		const listeners = this.#listeners.get(channel)
+
+		if (!listeners) return
+
+		if (onMessage) {
+			listeners.delete(onMessage)
+
+			if (listeners.size > 0) return
+		}
+
 		this.#listeners.delete(channel)
+		await this.#sub.unsubscribe(channel)
 	}
 
 	/**
@@ -117,4 +176,11 @@ class EvRedisAdapter implements EvStateAdapter {
 	}
 }
 
-export { EvRedisPubSub, EvRedisAdapter }
+export {
+	EvRedisPubSub,
+	EvRedisStreamPubSub,
+	EvRedisAdapter,
+	EvRedisHistory,
+	EvRedisPresenceStore,
+	EvRedisStateStore,
+}
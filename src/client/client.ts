@@ -0,0 +1,621 @@
+import { EvEmitter } from '../emitter.js'
+import { isPattern, matchPattern } from '../matcher.js'
+import { jsonSerializer } from '../serializers.js'
+import { applyMergePatch, applyPatch } from '../patch.js'
+import { EvSseParser } from './parser.js'
+import { EvStateMirror } from './state.js'
+
+import type {
+	EvChannelMap,
+	EvChannelName,
+	EvConnectionState,
+	EvErrorEventData,
+	EvMessage,
+	EvRequestEventData,
+	EvSerializer,
+	EvShutdownEventData,
+} from '../types.js'
+import type { EvSseEvent } from './parser.js'
+import type { EvStateMirrorOptions } from './state.js'
+
+/**
+ * Reconnection backoff of {@link EvClient}.
+ */
+export interface EvReconnectOptions {
+	/** Delay (in milliseconds) before the first reconnection. Default is 1000, a `retry` sent by the server replaces it */
+	initialDelay?: number
+
+	/** Max delay (in milliseconds) between two reconnections. Default is 30000 */
+	maxDelay?: number
+
+	/** Factor applied to the delay after every failed attempt. Default is 2 */
+	factor?: number
+
+	/** Random part (0 to 1) removed from every delay. Default is 0.5 */
+	jitter?: number
+}
+
+/**
+ * Options for creating an {@link EvClient}.
+ */
+export interface EvClientOptions {
+	/**
+	 * How the stream is read. Default is `fetch`.
+	 *
+	 * `eventsource` only receives the events named in `events`, the built-in events and the mirrored state channels.
+	 */
+	transport?: 'fetch' | 'eventsource'
+
+	/** Request headers, e.g. `Authorization`. Only sent with the `fetch` transport */
+	headers?: Record<string, string>
+
+	/** Credentials mode of the request. `include` enables `withCredentials` for EventSource */
+	credentials?: RequestCredentials
+
+	/**
+	 * Reconnects when nothing (not even a heartbeat) was received for this time (in milliseconds). Default is disabled.
+	 * Requires the `fetch` transport, `EventSource` doesn't expose comment heartbeats.
+	 */
+	heartbeatTimeout?: number
+
+	/** Reconnection backoff, `false` disables reconnections */
+	reconnect?: EvReconnectOptions | false
+
+	/** Serializer used by the server. Default is JSON */
+	serializer?: EvSerializer
+
+	/** Last event id sent on the first connection */
+	lastEventId?: string
+
+	/** Event names listened to with the `eventsource` transport */
+	events?: string[]
+
+	/** Fetch implementation. Default is the global `fetch` */
+	fetch?: typeof fetch
+
+	/** Connects once the client is created. Default is true */
+	connect?: boolean
+}
+
+/**
+ * Channel message received by {@link EvClient}, with the channel name removed from the data.
+ */
+export type EvChannelEvent<E = Record<string, any>> = string extends keyof E
+	? { channel: string; event: string; data: any; id?: string }
+	: {
+			[K in keyof E & string]: {
+				channel: string
+				event: K
+				data: E[K]
+				id?: string
+			}
+		}[keyof E & string]
+
+/**
+ * Events emitted by {@link EvClient}.
+ */
+export interface EvClientEvents {
+	// Connection state changed
+	state: (state: EvConnectionState) => void
+	// The stream was opened
+	open: () => void
+	// The stream was closed or lost, with the error when it failed
+	disconnect: (error?: Error) => void
+	// Every event received, before it is handled
+	event: (event: EvSseEvent) => void
+	// Message sent to this client with `to()` or `toUser()`
+	direct: (message: EvMessage) => void
+	// Request sent with `request()` of the stream handle, answered by passing `cid` to `manager.resolve()`
+	request: (request: EvRequestEventData & { event: string }) => void
+	// Authentication or channel authorization failure
+	error: (data: EvErrorEventData) => void
+	// The server is shutting down, the client reconnects after the `retry` it sent
+	shutdown: (data: EvShutdownEventData) => void
+	heartbeat: () => void
+}
+
+const builtInEvents = ['message', 'heartbeat', 'end', 'error', 'shutdown']
+
+// Client errors which won't be fixed by reconnecting
+const fatalStatuses = [400, 401, 403, 404, 405, 410]
+
+interface EvSubscription {
+	channel: string
+	handler: (message: EvChannelEvent) => void
+}
+
+/**
+ * Client of an evstream server.
+ *
+ * - Reads the stream with `fetch` (custom headers, every event) or `EventSource`
+ * - Demultiplexes channel messages, pattern subscriptions are supported
+ * - Reconnects with exponential backoff and `Last-Event-ID`, following the `retry` sent by the server
+ * - Detects missed heartbeats
+ * - Mirrors server `EvState` values
+ *
+ * @typeParam C - Mapping of channel names to their event names and payload types, shared with `EvStreamManager<C>`
+ */
+export class EvClient<C extends object = EvChannelMap> {
+	#url: string
+	#opts: EvClientOptions
+	#serializer: EvSerializer
+	#events = new EvEmitter<EvClientEvents>()
+	#subscriptions = new Set<EvSubscription>()
+	#state: EvConnectionState = 'closed'
+	#lastEventId?: string
+	#retry?: number
+	#attempt = 0
+	#generation = 0
+	#stopped = true
+	#ended = false
+	#shutdown = false
+	#fatal = false
+	#abort?: () => void
+	#reconnectTimer?: ReturnType<typeof setTimeout>
+	#heartbeatTimer?: ReturnType<typeof setTimeout>
+	#source?: EventSource
+	#eventNames: Set<string>
+
+	constructor(url: string | URL, opts?: EvClientOptions) {
+		this.#url = String(url)
+		this.#opts = opts || {}
+		this.#serializer = this.#opts.serializer || jsonSerializer
+		this.#lastEventId = this.#opts.lastEventId
+		this.#eventNames = new Set([...builtInEvents, ...(this.#opts.events || [])])
+
+		if (this.#opts.transport === 'eventsource' && this.#opts.heartbeatTimeout) {
+			throw new TypeError('heartbeatTimeout requires the fetch transport')
+		}
+
+		// Deferred so listeners registered right after the constructor see the first state
+		if (this.#opts.connect !== false) {
+			queueMicrotask(() => this.connect())
+		}
+	}
+
+	/**
+	 * Connection state of the client.
+	 */
+	get state() {
+		return this.#state
+	}
+
+	/**
+	 * Id of the last received event, sent as `Last-Event-ID` when reconnecting.
+	 */
+	get lastEventId() {
+		return this.#lastEventId
+	}
+
+	/**
+	 * Registers a listener for a client event.
+	 */
+	on<K extends keyof EvClientEvents>(event: K, listener: EvClientEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of a client event.
+	 */
+	off<K extends keyof EvClientEvents>(event: K, listener: EvClientEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
+	/**
+	 * Registers a handler of the messages of a channel or of the channels matching a pattern.
+	 * Returns a function removing it.
+	 *
+	 * The server decides which channels the client listens to, this only filters the received messages.
+	 */
+	subscribe<K extends EvChannelName<C>>(
+		channel: K,
+		handler: (
+			message: EvChannelEvent<K extends keyof C ? C[K] : Record<string, any>>
+		) => void
+	) {
+		const subscription: EvSubscription = {
+			channel,
+			handler: handler as EvSubscription['handler'],
+		}
+
+		this.#subscriptions.add(subscription)
+
+		return () => {
+			this.#subscriptions.delete(subscription)
+		}
+	}
+
+	/**
+	 * Mirrors a server `EvState` broadcasting to `channel`.
+	 *
+	 * Deltas are applied on top of the last value. When one is missing, e.g. the mirror was
+	 * created after the snapshot was received, the stream is reopened with {@link resync}.
+	 * A `state:removed` event marks the mirror as removed.
+	 */
+	mirror<T>(channel: string, opts?: EvStateMirrorOptions<T>) {
+		const key = opts?.key || 'value'
+
+		this.#watch(channel)
+		this.#watch('state:removed')
+
+		const unsubscribe = this.subscribe(channel as EvChannelName<C>, (msg) => {
+			if (msg.event === 'state:removed') {
+				mirror.remove()
+				return
+			}
+
+			if (
+				msg.event !== channel ||
+				msg.data === null ||
+				typeof msg.data !== 'object'
+			) {
+				return
+			}
+
+			const data = msg.data as Record<string, any>
+			const version: number | undefined = data.version
+			const current = mirror.version
+
+			if (key in data) {
+				// Replayed messages may be older than the snapshot
+				if (
+					data.snapshot ||
+					version === undefined ||
+					current === undefined ||
+					version > current
+				) {
+					mirror.update(data[key], version)
+				}
+				return
+			}
+
+			if (version === undefined || !('patch' in data || 'merge' in data)) {
+				return
+			}
+
+			if (current !== undefined && version <= current) return
+
+			if (current === undefined || version !== current + 1) {
+				this.resync()
+				return
+			}
+
+			try {
+				mirror.update(
+					'patch' in data
+						? applyPatch(mirror.get() as T, data.patch)
+						: applyMergePatch(mirror.get() as T, data.merge),
+					version
+				)
+			} catch {
+				this.resync()
+			}
+		})
+
+		const mirror = new EvStateMirror<T>(opts?.initialValue, unsubscribe)
+
+		return mirror
+	}
+
+	/**
+	 * Reopens the stream, so the server sends the snapshots of the mirrored states again.
+	 * Ignored while the stream isn't connected.
+	 */
+	resync() {
+		if (this.#stopped || this.#state !== 'connected') return
+
+		clearTimeout(this.#heartbeatTimer)
+		this.#abort?.()
+		this.#abort = undefined
+		this.#open()
+	}
+
+	/**
+	 * Opens the stream. Called by the constructor unless `connect: false` is set.
+	 */
+	connect() {
+		if (!this.#stopped) return
+
+		this.#stopped = false
+		this.#fatal = false
+		this.#attempt = 0
+		this.#open()
+	}
+
+	/**
+	 * Closes the stream and stops reconnecting.
+	 */
+	close() {
+		this.#stopped = true
+		this.#generation += 1
+		clearTimeout(this.#reconnectTimer)
+		clearTimeout(this.#heartbeatTimer)
+		this.#abort?.()
+		this.#abort = undefined
+		this.#setState('closed')
+	}
+
+	#setState(state: EvConnectionState) {
+		if (this.#state !== state) {
+			this.#state = state
+			this.#events.emit('state', state)
+		}
+	}
+
+	#open() {
+		const generation = ++this.#generation
+
+		this.#ended = false
+		this.#shutdown = false
+		this.#setState(this.#attempt > 0 ? 'reconnecting' : 'connecting')
+
+		if (this.#opts.transport === 'eventsource') {
+			this.#openEventSource(generation)
+		} else {
+			this.#openFetch(generation)
+		}
+	}
+
+	async #openFetch(generation: number) {
+		const controller = new AbortController()
+		const fetchImpl = this.#opts.fetch || fetch
+		const headers: Record<string, string> = {
+			Accept: 'text/event-stream',
+			...this.#opts.headers,
+		}
+
+		if (this.#lastEventId) {
+			headers['Last-Event-ID'] = this.#lastEventId
+		}
+
+		this.#abort = () => controller.abort()
+
+		try {
+			const response = await fetchImpl(this.#url, {
+				headers,
+				credentials: this.#opts.credentials,
+				signal: controller.signal,
+				cache: 'no-store',
+			})
+
+			if (response.status === 204) {
+				this.close()
+				return
+			}
+
+			if (!response.ok || !response.body) {
+				this.#fatal = fatalStatuses.includes(response.status)
+				throw new Error(`Unexpected response status ${response.status}`)
+			}
+
+			if (generation !== this.#generation) return
+
+			this.#opened()
+
+			const parser = new EvSseParser((event) => this.#handle(event))
+			const reader = response.body.getReader()
+			const decoder = new TextDecoder()
+
+			for (;;) {
+				const { value, done } = await reader.read()
+
+				if (done || generation !== this.#generation) break
+
+				this.#activity(generation)
+				parser.feed(decoder.decode(value, { stream: true }))
+			}
+
+			this.#dropped(generation)
+		} catch (error) {
+			if (!controller.signal.aborted) {
+				this.#dropped(generation, error as Error)
+			}
+		}
+	}
+
+	#openEventSource(generation: number) {
+		const url = new URL(this.#url, globalThis.location?.href)
+
+		if (this.#lastEventId) {
+			url.searchParams.set('lastEventId', this.#lastEventId)
+		}
+
+		const source = new EventSource(url, {
+			withCredentials: this.#opts.credentials === 'include',
+		})
+
+		this.#source = source
+		this.#abort = () => {
+			source.close()
+			this.#source = undefined
+		}
+
+		source.onopen = () => {
+			if (generation === this.#generation) this.#opened()
+		}
+
+		// EventSource reconnects on its own, the client closes it to apply its own backoff
+		source.onerror = () => {
+			source.close()
+			this.#dropped(generation, new Error('EventSource connection failed'))
+		}
+
+		this.#eventNames.forEach((name) => this.#listenSource(source, name))
+	}
+
+	#listenSource(source: EventSource, name: string) {
+		source.addEventListener(name, (event) => {
+			const { data, lastEventId } = event as MessageEvent
+
+			this.#activity(this.#generation)
+			this.#handle({
+				event: name,
+				data,
+				id: lastEventId !== this.#lastEventId ? lastEventId : undefined,
+			})
+		})
+	}
+
+	/**
+	 * Makes sure events of that name are received with the `eventsource` transport.
+	 */
+	#watch(name: string) {
+		if (this.#eventNames.has(name)) return
+
+		this.#eventNames.add(name)
+
+		if (this.#source) {
+			this.#listenSource(this.#source, name)
+		}
+	}
+
+	#opened() {
+		this.#attempt = 0
+		this.#retry = undefined
+		this.#setState('connected')
+		this.#events.emit('open')
+		this.#activity(this.#generation)
+	}
+
+	/**
+	 * Restarts the heartbeat timer, the stream is reopened when it expires.
+	 */
+	#activity(generation: number) {
+		const timeout = this.#opts.heartbeatTimeout
+
+		if (!timeout) return
+
+		clearTimeout(this.#heartbeatTimer)
+		this.#heartbeatTimer = setTimeout(() => {
+			this.#abort?.()
+			this.#dropped(generation, new Error('Heartbeat timeout'))
+		}, timeout)
+	}
+
+	#dropped(generation: number, error?: Error) {
+		if (generation !== this.#generation || this.#stopped) return
+
+		this.#generation += 1
+		this.#abort = undefined
+		clearTimeout(this.#heartbeatTimer)
+		this.#events.emit('disconnect', error)
+
+		// A stream ended by the server is only reopened when the server is shutting down
+		const reconnect =
+			this.#opts.reconnect !== false &&
+			!this.#fatal &&
+			(!this.#ended || this.#shutdown)
+
+		if (!reconnect) {
+			this.close()
+			return
+		}
+
+		const backoff = this.#opts.reconnect || {}
+		const base = this.#retry ?? backoff.initialDelay ?? 1000
+		const delay = Math.min(
+			backoff.maxDelay ?? 30000,
+			base * Math.pow(backoff.factor ?? 2, this.#attempt)
+		)
+		const jitter = Math.min(1, Math.max(0, backoff.jitter ?? 0.5))
+
+		this.#attempt += 1
+		this.#setState('reconnecting')
+		this.#reconnectTimer = setTimeout(
+			() => this.#open(),
+			delay * (1 - jitter * Math.random())
+		)
+	}
+
+	#handle(event: EvSseEvent) {
+		if (event.id !== undefined) {
+			this.#lastEventId = event.id || undefined
+		}
+
+		if (event.retry !== undefined) {
+			this.#retry = event.retry
+		}
+
+		if (!event.event) return
+
+		this.#events.emit('event', event)
+
+		switch (event.event) {
+			case 'heartbeat':
+				this.#events.emit('heartbeat')
+				return
+
+			case 'end':
+				this.#ended = true
+				return
+
+			case 'shutdown':
+				this.#shutdown = true
+				this.#events.emit(
+					'shutdown',
+					this.#decode(event.data) as EvShutdownEventData
+				)
+				return
+
+			case 'error': {
+				const data = this.#decode(event.data) as EvErrorEventData
+
+				// Reconnecting with the same credentials would fail again
+				if (data?.message === 'authentication failed') {
+					this.#fatal = true
+				}
+
+				this.#events.emit('error', data)
+				return
+			}
+		}
+
+		const data = this.#decode(event.data)
+
+		if (data !== null && typeof data === 'object' && 'ch' in data) {
+			this.#dispatch(event, data as Record<string, any>)
+		} else if (data !== null && typeof data === 'object' && 'cid' in data) {
+			const { cid, data: payload } = data as EvRequestEventData
+			this.#events.emit('request', { cid, event: event.event, data: payload })
+		} else if (event.event === 'message') {
+			this.#events.emit('direct', data as EvMessage)
+		}
+	}
+
+	#decode(text: string) {
+		return this.#serializer.deserialize
+			? this.#serializer.deserialize(text)
+			: jsonSerializer.deserialize!(text)
+	}
+
+	/**
+	 * Passes a channel message to the matching subscriptions.
+	 */
+	#dispatch(event: EvSseEvent, envelope: Record<string, any>) {
+		const { ch, ...rest } = envelope
+		const keys = Object.keys(rest)
+
+		// Non-object data is wrapped as `{ ch, data }`
+		const data =
+			keys.length === 1 && keys[0] === 'data' && typeof rest.data !== 'object'
+				? rest.data
+				: rest
+
+		const message: EvChannelEvent = {
+			channel: ch,
+			event: event.event,
+			data,
+			id: event.id || undefined,
+		}
+
+		this.#subscriptions.forEach((subscription) => {
+			if (
+				subscription.channel === ch ||
+				(isPattern(subscription.channel) &&
+					matchPattern(subscription.channel, ch))
+			) {
+				subscription.handler(message)
+			}
+		})
+	}
+}
@@ -0,0 +1,51 @@
+import { EvClient } from './client.js'
+import { EvSseParser } from './parser.js'
+import { EvStateMirror } from './state.js'
+import {
+	jsonSerializer,
+	superJsonSerializer,
+	msgpackSerializer,
+} from '../serializers.js'
+import { applyPatch, applyMergePatch } from '../patch.js'
+
+import type {
+	EvClientOptions,
+	EvClientEvents,
+	EvChannelEvent,
+	EvReconnectOptions,
+} from './client.js'
+import type { EvSseEvent } from './parser.js'
+import type { EvStateMirrorOptions } from './state.js'
+import type {
+	EvChannelMap,
+	EvConnectionState,
+	EvEnvelope,
+	EvErrorEventData,
+	EvShutdownEventData,
+	EvPatchOperation,
+	EvRequestEventData,
+} from '../types.js'
+
+export {
+	EvClient,
+	EvSseParser,
+	EvStateMirror,
+	jsonSerializer,
+	superJsonSerializer,
+	msgpackSerializer,
+	applyPatch,
+	applyMergePatch,
+	EvClientOptions,
+	EvClientEvents,
+	EvChannelEvent,
+	EvReconnectOptions,
+	EvSseEvent,
+	EvStateMirrorOptions,
+	EvChannelMap,
+	EvConnectionState,
+	EvEnvelope,
+	EvErrorEventData,
+	EvShutdownEventData,
+	EvPatchOperation,
+	EvRequestEventData,
+}
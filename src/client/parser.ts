@@ -0,0 +1,106 @@
+/**
+ * Event dispatched by {@link EvSseParser}.
+ */
+export interface EvSseEvent {
+	// Event name, `message` when the frame has no `event` field. Empty for frames without data, which only carry `id` or `retry`.
+	event: string
+	// Data lines joined with `\n`.
+	data: string
+	// Value of the `id` field of the frame, if any. An empty string resets the last event id.
+	id?: string
+	// Value of the `retry` field of the frame, if any.
+	retry?: number
+}
+
+/**
+ * Incremental parser of the `text/event-stream` format.
+ *
+ * Chunks can be split anywhere, including between `\r` and `\n`.
+ */
+export class EvSseParser {
+	#buffer = ''
+	#event = ''
+	#data: string[] = []
+	#id?: string
+	#retry?: number
+	#onEvent: (event: EvSseEvent) => void
+
+	constructor(onEvent: (event: EvSseEvent) => void) {
+		this.#onEvent = onEvent
+	}
+
+	/**
+	 * Parses a chunk of the stream.
+	 */
+	feed(chunk: string) {
+		this.#buffer += chunk
+
+		let start = 0
+
+		for (let i = 0; i < this.#buffer.length; i++) {
+			const char = this.#buffer[i]
+
+			if (char !== '\r' && char !== '\n') continue
+
+			// A trailing `\r` may be followed by `\n` in the next chunk
+			if (char === '\r' && i === this.#buffer.length - 1) break
+
+			this.#line(this.#buffer.slice(start, i))
+
+			if (char === '\r' && this.#buffer[i + 1] === '\n') i++
+			start = i + 1
+		}
+
+		this.#buffer = this.#buffer.slice(start)
+	}
+
+	#line(line: string) {
+		if (line === '') {
+			this.#dispatch()
+			return
+		}
+
+		// Comments, e.g. heartbeats sent with `heartbeatType: 'comment'`
+		if (line[0] === ':') return
+
+		const colon = line.indexOf(':')
+		const name = colon === -1 ? line : line.slice(0, colon)
+		let value = colon === -1 ? '' : line.slice(colon + 1)
+
+		if (value[0] === ' ') value = value.slice(1)
+
+		switch (name) {
+			case 'event':
+				this.#event = value
+				break
+			case 'data':
+				this.#data.push(value)
+				break
+			case 'id':
+				if (!value.includes('\0')) this.#id = value
+				break
+			case 'retry':
+				if (/^\d+$/.test(value)) this.#retry = Number(value)
+				break
+		}
+	}
+
+	#dispatch() {
+		const event: EvSseEvent = {
+			event: this.#event || 'message',
+			data: this.#data.join('\n'),
+			id: this.#id,
+			retry: this.#retry,
+		}
+		const hasData = this.#data.length > 0
+
+		this.#event = ''
+		this.#data = []
+		this.#id = undefined
+		this.#retry = undefined
+
+		if (hasData || event.id !== undefined || event.retry !== undefined) {
+			this.#onEvent(hasData ? event : { ...event, event: '' })
+		}
+	}
+}
@@ -0,0 +1,96 @@
+/**
+ * Options for a state mirror.
+ */
+export interface EvStateMirrorOptions<T> {
+	/** Key of the value in the state messages. Must match the `key` of the server `EvState`. Default is `value` */
+	key?: string
+
+	/** Value returned until the first update is received */
+	initialValue?: T
+}
+
+/**
+ * Read-only copy of a server {@link EvState}, kept up to date by {@link EvClient.mirror}.
+ */
+export class EvStateMirror<T> {
+	#value?: T
+	#version?: number
+	#listeners = new Set<(value: T) => void>()
+	#removeListeners = new Set<() => void>()
+	#removed = false
+	#dispose: () => void
+
+	constructor(initialValue: T | undefined, dispose: () => void) {
+		this.#value = initialValue
+		this.#dispose = dispose
+	}
+
+	/**
+	 * Returns the last received value.
+	 */
+	get() {
+		return this.#value
+	}
+
+	/**
+	 * Version of the last received value, `undefined` until the server sent one.
+	 */
+	get version() {
+		return this.#version
+	}
+
+	/**
+	 * Whether the server removed the state. Reset when a new value is received.
+	 */
+	get removed() {
+		return this.#removed
+	}
+
+	/**
+	 * Registers a listener called with every new value. Returns a function removing it.
+	 */
+	subscribe(listener: (value: T) => void) {
+		this.#listeners.add(listener)
+		return () => {
+			this.#listeners.delete(listener)
+		}
+	}
+
+	/**
+	 * Registers a listener called when the server removes the state. Returns a function removing it.
+	 */
+	onRemove(listener: () => void) {
+		this.#removeListeners.add(listener)
+		return () => {
+			this.#removeListeners.delete(listener)
+		}
+	}
+
+	/**
+	 * Stores a value received from the server.
+	 */
+	update(value: T, version?: number) {
+		this.#value = value
+		this.#version = version
+		this.#removed = false
+		this.#listeners.forEach((listener) => listener(value))
+	}
+
+	/**
+	 * Marks the state as removed by the server. The last value is kept.
+	 */
+	remove() {
+		this.#removed = true
+		this.#version = undefined
+		this.#removeListeners.forEach((listener) => listener())
+	}
+
+	/**
+	 * Stops updating the mirror and removes its listeners.
+	 */
+	dispose() {
+		this.#dispose()
+		this.#listeners.clear()
+		this.#removeListeners.clear()
+	}
+}
@@ -0,0 +1,64 @@
+/**
+ * Minimal typed event emitter.
+ *
+ * Used instead of Node's `EventEmitter` so the library keeps working on
+ * runtimes without the `events` module.
+ *
+ * @typeParam E - Mapping of event names to their listener signatures
+ */
+export class EvEmitter<E extends { [K in keyof E]: (...args: any[]) => void }> {
+	#listeners = new Map<keyof E, Set<(...args: any[]) => void>>()
+
+	/**
+	 * Registers a listener for the event.
+	 */
+	on<K extends keyof E>(event: K, listener: E[K]) {
+		let listeners = this.#listeners.get(event)
+
+		if (!listeners) {
+			listeners = new Set()
+			this.#listeners.set(event, listeners)
+		}
+
+		listeners.add(listener)
+	}
+
+	/**
+	 * Removes a listener of the event.
+	 */
+	off<K extends keyof E>(event: K, listener: E[K]) {
+		const listeners = this.#listeners.get(event)
+
+		if (!listeners) return
+
+		listeners.delete(listener)
+
+		if (listeners.size === 0) {
+			this.#listeners.delete(event)
+		}
+	}
+
+	/**
+	 * Invokes every listener of the event. Errors thrown by listeners are ignored.
+	 */
+	emit<K extends keyof E>(event: K, ...args: Parameters<E[K]>) {
+		const listeners = this.#listeners.get(event)
+
+		if (!listeners) return
+
+		for (const listener of [...listeners]) {
+			try {
+				listener(...args)
+			} catch {
+				// A failing listener must not break message delivery
+			}
+		}
+	}
+
+	/**
+	 * Whether the event has any listener.
+	 */
+	has<K extends keyof E>(event: K) {
+		return this.#listeners.has(event)
+	}
+}
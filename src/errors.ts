@@ -1,3 +1,5 @@
+import type { EvValidationIssue } from './types.js'
+
 /**
  * `EvMaxConnectionsError` represents a error which occurs when `maxConnection` reached. Default `maxConnection` is 5000.
  *
@@ -23,3 +25,67 @@ export class EvMaxListenerError extends Error {
 		this.name = `EvMaxListenerError`
 	}
 }
+
+/**
+ * `EvShutdownError` represents a error which occurs when a stream is created while the manager is shutting down.
+ *
+ * It is thrown by `createStream()` once `shutdown()` was called on `EvStreamManager`.
+ */
+export class EvShutdownError extends Error {
+	constructor() {
+		super()
+		this.message = `Stream manager is shutting down, new streams are not accepted.`
+		this.name = `EvShutdownError`
+	}
+}
+
+/**
+ * `EvRequestTimeoutError` represents a error which occurs when a client doesn't answer a request in time.
+ *
+ * The promise returned by `request()` of a stream handle is rejected with it once `timeout` elapsed.
+ */
+export class EvRequestTimeoutError extends Error {
+	event: string
+	timeout: number
+
+	constructor(event: string, timeout: number) {
+		super()
+		this.message = `No answer to the request ${event} after ${timeout}ms.`
+		this.name = `EvRequestTimeoutError`
+		this.event = event
+		this.timeout = timeout
+	}
+}
+
+/**
+ * `EvStreamClosedError` represents a error which occurs when a stream closes while a request is pending.
+ *
+ * The promises returned by `request()` of a stream handle are rejected with it when the client disconnects.
+ */
+export class EvStreamClosedError extends Error {
+	constructor() {
+		super()
+		this.message = `Stream closed before the request was answered.`
+		this.name = `EvStreamClosedError`
+	}
+}
+
+/**
+ * `EvValidationError` represents a error which occurs when the data of a channel message is rejected by its schema.
+ *
+ * It is thrown by `send()` of `EvStreamManager` before the message reaches any client. Schemas are set with the `schemas` option.
+ */
+export class EvValidationError extends Error {
+	channel: string
+	event: string
+	issues: EvValidationIssue[]
+
+	constructor(channel: string, event: string, issues: EvValidationIssue[]) {
+		super()
+		this.message = `Invalid data for the event ${event} of the channel ${channel} : ${issues.map((issue) => issue.message).join(', ')}`
+		this.name = `EvValidationError`
+		this.channel = channel
+		this.event = event
+		this.issues = issues
+	}
+}
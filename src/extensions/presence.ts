@@ -0,0 +1,260 @@
+import type { EvStreamManager } from '../manager.js'
+import type { EvPresenceMember, EvPresenceStore } from '../types.js'
+
+/**
+ * Options for creating an {@link EvPresence}.
+ */
+interface EvPresenceOptions {
+	/**
+	 * Stream manager used to broadcast join / leave events
+	 * and to detect clients leaving a channel.
+	 */
+	manager: EvStreamManager<any>
+
+	/**
+	 * Store keeping the channel members.
+	 * Use a shared store (e.g. `EvRedisPresenceStore`) to see members of other instances.
+	 * Defaults to {@link EvMemoryPresenceStore}.
+	 */
+	store?: EvPresenceStore
+
+	/**
+	 * Time (in milliseconds) after which a member which wasn't refreshed
+	 * is considered gone. Default is 30 seconds.
+	 */
+	ttl?: number
+
+	/**
+	 * Interval (in milliseconds) at which local members are refreshed
+	 * in the store. Default is a third of the `ttl`.
+	 */
+	heartbeat?: number
+}
+
+/**
+ * Stream handle which can join a presence channel.
+ */
+interface EvPresenceStream {
+	id: string
+	listen(name: string): boolean | Promise<boolean>
+}
+
+/**
+ * In-memory implementation of {@link EvPresenceStore}.
+ *
+ * Only knows the members of the current instance.
+ */
+export class EvMemoryPresenceStore implements EvPresenceStore {
+	/** Channel → member id → member and expiry time */
+	#channels = new Map<
+		string,
+		Map<string, { member: EvPresenceMember; expiresAt: number }>
+	>()
+
+	async set(channel: string, member: EvPresenceMember, ttl: number) {
+		let members = this.#channels.get(channel)
+
+		if (!members) {
+			members = new Map()
+			this.#channels.set(channel, members)
+		}
+
+		members.set(member.id, { member, expiresAt: Date.now() + ttl })
+	}
+
+	async remove(channel: string, id: string) {
+		const members = this.#channels.get(channel)
+
+		if (!members) return
+
+		members.delete(id)
+
+		if (members.size === 0) {
+			this.#channels.delete(channel)
+		}
+	}
+
+	async members(channel: string) {
+		const members = this.#channels.get(channel)
+		const now = Date.now()
+		const result: EvPresenceMember[] = []
+
+		if (!members) return result
+
+		for (const [id, entry] of members) {
+			if (entry.expiresAt <= now) {
+				members.delete(id)
+				continue
+			}
+
+			result.push(entry.member)
+		}
+
+		return result
+	}
+}
+
+/**
+ * Tracks which clients are present on a channel.
+ *
+ * Responsibilities:
+ * - Attach metadata to a client when it joins a channel
+ * - Broadcast `presence:join` / `presence:leave` events to the channel
+ * - Keep members alive in the store with heartbeats, so members of a crashed
+ *   instance expire after the `ttl`
+ *
+ * @typeParam M - Metadata attached to members
+ */
+export class EvPresence<M = any> {
+	/** Stream manager used for broadcasting */
+	#manager: EvStreamManager<any>
+
+	/** Store keeping members of every instance */
+	#store: EvPresenceStore
+
+	/** Members connected to this instance. Channel → client ID → metadata */
+	#local = new Map<string, Map<string, M>>()
+
+	/** Member expiry in milliseconds */
+	#ttl: number
+
+	/** Heartbeat timer refreshing local members */
+	#timer: ReturnType<typeof setInterval>
+
+	/**
+	 * Creates a new presence tracker.
+	 *
+	 * @param options - Initialization options
+	 */
+	constructor({ manager, store, ttl, heartbeat }: EvPresenceOptions) {
+		this.#manager = manager
+		this.#store = store || new EvMemoryPresenceStore()
+		this.#ttl = ttl || 30000
+
+		this.onUnlisten = this.onUnlisten.bind(this)
+		this.#manager.on('unlisten', this.onUnlisten)
+
+		this.#timer = setInterval(
+			() => this.refresh(),
+			heartbeat || Math.floor(this.#ttl / 3)
+		)
+
+		// The heartbeat alone must not keep the process running
+		;(this.#timer as { unref?: () => void }).unref?.()
+	}
+
+	/**
+	 * Subscribes a stream to a channel and announces it to the channel members.
+	 * Streams which aren't allowed to listen to the channel, or left it meanwhile, don't join it.
+	 *
+	 * @param stream - Stream handle returned by `createStream()`
+	 * @param channel - Channel name
+	 * @param meta - Metadata attached to the member (e.g. user name, avatar)
+	 * @returns Whether the stream joined the channel
+	 */
+	async join(stream: EvPresenceStream, channel: string, meta: M) {
+		if (!(await stream.listen(channel))) return false
+
+		let members = this.#local.get(channel)
+
+		if (!members) {
+			members = new Map()
+			this.#local.set(channel, members)
+		}
+
+		members.set(stream.id, meta)
+
+		await this.#store.set(channel, { id: stream.id, meta }, this.#ttl)
+
+		// The stream left while the member was stored, its leave was already announced
+		if (!this.#local.get(channel)?.has(stream.id)) {
+			await this.#store.remove(channel, stream.id)
+			return false
+		}
+
+		this.#manager.send(channel, {
+			event: 'presence:join',
+			data: { id: stream.id, meta },
+		})
+
+		return true
+	}
+
+	/**
+	 * Returns the members of a channel across all instances.
+	 *
+	 * @param channel - Channel name
+	 */
+	async getMembers(channel: string): Promise<EvPresenceMember<M>[]> {
+		const members = new Map<string, EvPresenceMember<M>>()
+
+		this.#local.get(channel)?.forEach((meta, id) => {
+			members.set(id, { id, meta })
+		})
+
+		for (const member of await this.#store.members(channel)) {
+			if (!members.has(member.id)) {
+				members.set(member.id, member)
+			}
+		}
+
+		return [...members.values()]
+	}
+
+	/**
+	 * Stops the heartbeat and removes the local members from the store.
+	 */
+	async close() {
+		clearInterval(this.#timer)
+		this.#manager.off('unlisten', this.onUnlisten)
+
+		const removals: Promise<void>[] = []
+
+		this.#local.forEach((members, channel) => {
+			members.forEach((_, id) => removals.push(this.#store.remove(channel, id)))
+		})
+
+		this.#local.clear()
+		await Promise.all(removals)
+	}
+
+	/**
+	 * Refreshes the expiry of the local members.
+	 */
+	private refresh() {
+		this.#local.forEach((members, channel) => {
+			members.forEach((meta, id) => {
+				// Retried on the next heartbeat
+				this.#store
+					.set(channel, { id, meta }, this.#ttl)
+					.catch((error) => this.#manager.report(error))
+			})
+		})
+	}
+
+	/**
+	 * Removes a member once its stream leaves the channel or disconnects.
+	 */
+	private onUnlisten({ id, channel }: { id: string; channel: string }) {
+		const members = this.#local.get(channel)
+
+		if (!members?.has(id)) return
+
+		const meta = members.get(id)
+		members.delete(id)
+
+		if (members.size === 0) {
+			this.#local.delete(channel)
+		}
+
+		// The member still expires after the ttl
+		this.#store
+			.remove(channel, id)
+			.catch((error) => this.#manager.report(error))
+
+		this.#manager.send(channel, {
+			event: 'presence:leave',
+			data: { id, meta },
+		})
+	}
+}
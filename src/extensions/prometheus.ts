@@ -0,0 +1,215 @@
+import type { EvStreamManager } from '../manager.js'
+import type { EvManagerEvents } from '../types.js'
+
+/**
+ * Options for creating an {@link EvPrometheusExporter}.
+ */
+interface EvPrometheusExporterOptions {
+	/**
+	 * Stream manager to export metrics of.
+	 */
+	manager: EvStreamManager<any>
+
+	/**
+	 * Prefix of every metric name. Default is `evstream`.
+	 */
+	prefix?: string
+
+	/**
+	 * Upper bounds (in seconds) of the fan-out duration histogram buckets.
+	 */
+	buckets?: number[]
+
+	/**
+	 * Whether to export listener counts per channel. Disable it when
+	 * channel names have a high cardinality. Default is true.
+	 */
+	channelLabels?: boolean
+}
+
+/**
+ * Escapes a Prometheus label value.
+ */
+function label(value: string) {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Exports the metrics of an {@link EvStreamManager} in the Prometheus text format.
+ *
+ * Counters are collected from the manager events, gauges are read from
+ * `manager.stats()` whenever `metrics()` is called.
+ *
+ * ```typescript
+ * const exporter = new EvPrometheusExporter({ manager })
+ *
+ * app.get('/metrics', (req, res) => {
+ * 	res.setHeader('Content-Type', EvPrometheusExporter.contentType)
+ * 	res.end(exporter.metrics())
+ * })
+ * ```
+ */
+export class EvPrometheusExporter {
+	/** Content type of the Prometheus text format */
+	static readonly contentType = 'text/plain; version=0.0.4; charset=utf-8'
+
+	/** Manager the metrics are collected from */
+	#manager: EvStreamManager<any>
+
+	/** Metric name prefix */
+	#prefix: string
+
+	/** Export listener counts per channel */
+	#channelLabels: boolean
+
+	/** Histogram bucket bounds in seconds */
+	#buckets: number[]
+
+	/** Histogram bucket counts, parallel to `#buckets` */
+	#bucketCounts: number[]
+
+	/** Fan-out duration sum in seconds */
+	#durationSum = 0
+
+	/** Number of fan-outs */
+	#durationCount = 0
+
+	/** Connections since the exporter was created */
+	#connects = 0
+
+	/** Disconnections since the exporter was created */
+	#disconnects = 0
+
+	/**
+	 * Creates a new exporter and starts collecting the manager events.
+	 *
+	 * @param options - Initialization options
+	 */
+	constructor({
+		manager,
+		prefix,
+		buckets,
+		channelLabels,
+	}: EvPrometheusExporterOptions) {
+		this.#manager = manager
+		this.#prefix = prefix || 'evstream'
+		this.#channelLabels = channelLabels ?? true
+		this.#buckets = [
+			...(buckets || [0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1]),
+		].sort((a, b) => a - b)
+		this.#bucketCounts = this.#buckets.map(() => 0)
+
+		this.onDeliver = this.onDeliver.bind(this)
+		this.onConnect = this.onConnect.bind(this)
+		this.onDisconnect = this.onDisconnect.bind(this)
+
+		this.#manager.on('deliver', this.onDeliver)
+		this.#manager.on('connect', this.onConnect)
+		this.#manager.on('disconnect', this.onDisconnect)
+	}
+
+	/**
+	 * Returns the metrics in the Prometheus text format.
+	 */
+	metrics() {
+		const stats = this.#manager.stats()
+		const p = this.#prefix
+		const lines: string[] = []
+
+		const metric = (name: string, type: string, help: string) => {
+			lines.push(`# HELP ${p}_${name} ${help}`, `# TYPE ${p}_${name} ${type}`)
+		}
+
+		metric('connections', 'gauge', 'Connected clients.')
+		lines.push(`${p}_connections ${stats.connections}`)
+
+		metric('connects_total', 'counter', 'Client connections.')
+		lines.push(`${p}_connects_total ${this.#connects}`)
+
+		metric('disconnects_total', 'counter', 'Client disconnections.')
+		lines.push(`${p}_disconnects_total ${this.#disconnects}`)
+
+		if (this.#channelLabels) {
+			metric('channel_listeners', 'gauge', 'Listeners per channel.')
+			Object.entries(stats.channels).forEach(([channel, count]) => {
+				lines.push(
+					`${p}_channel_listeners{channel="${label(channel)}"} ${count}`
+				)
+			})
+
+			metric('pattern_listeners', 'gauge', 'Listeners per pattern.')
+			Object.entries(stats.patterns).forEach(([pattern, count]) => {
+				lines.push(
+					`${p}_pattern_listeners{pattern="${label(pattern)}"} ${count}`
+				)
+			})
+		}
+
+		metric('messages_sent_total', 'counter', 'Messages sent to channels.')
+		lines.push(`${p}_messages_sent_total ${stats.messages.sent}`)
+
+		metric(
+			'messages_delivered_total',
+			'counter',
+			'Channel messages written to clients.'
+		)
+		lines.push(`${p}_messages_delivered_total ${stats.messages.delivered}`)
+
+		metric('pubsub_messages_total', 'counter', 'Pub/Sub messages.')
+		lines.push(
+			`${p}_pubsub_messages_total{direction="in"} ${stats.messages.pubSubIn}`,
+			`${p}_pubsub_messages_total{direction="out"} ${stats.messages.pubSubOut}`
+		)
+
+		metric('errors_total', 'counter', 'Errors by name.')
+		Object.entries(stats.errors).forEach(([name, count]) => {
+			lines.push(`${p}_errors_total{error="${label(name)}"} ${count}`)
+		})
+
+		metric(
+			'fanout_duration_seconds',
+			'histogram',
+			'Time to deliver a channel message to local listeners.'
+		)
+		this.#buckets.forEach((bound, i) => {
+			lines.push(
+				`${p}_fanout_duration_seconds_bucket{le="${bound}"} ${this.#bucketCounts[i]}`
+			)
+		})
+		lines.push(
+			`${p}_fanout_duration_seconds_bucket{le="+Inf"} ${this.#durationCount}`,
+			`${p}_fanout_duration_seconds_sum ${this.#durationSum}`,
+			`${p}_fanout_duration_seconds_count ${this.#durationCount}`
+		)
+
+		return `${lines.join('\n')}\n`
+	}
+
+	/**
+	 * Stops collecting the manager events.
+	 */
+	close() {
+		this.#manager.off('deliver', this.onDeliver)
+		this.#manager.off('connect', this.onConnect)
+		this.#manager.off('disconnect', this.onDisconnect)
+	}
+
+	private onDeliver({ duration }: Parameters<EvManagerEvents['deliver']>[0]) {
+		const seconds = duration / 1000
+
+		this.#durationSum += seconds
+		this.#durationCount += 1
+
+		this.#buckets.forEach((bound, i) => {
+			if (seconds <= bound) this.#bucketCounts[i] += 1
+		})
+	}
+
+	private onConnect() {
+		this.#connects += 1
+	}
+
+	private onDisconnect() {
+		this.#disconnects += 1
+	}
+}
@@ -1,7 +1,16 @@
 import type { EvStreamManager } from '../manager.js'
-import type { EvRedisAdapter } from '../adapters/redis.js'
-import type { EvRedisPubSub } from '../adapters/pub-sub.js'
+import type {
+	EvListenerInfo,
+	EvManagedStateOptions,
+	EvPubSubTransport,
+	EvStateAdapter,
+	EvStateConflict,
+	EvStateDelta,
+	EvStateStore,
+} from '../types.js'
 import { EvState } from '../state.js'
+import { EvScopedState } from '../scoped-state.js'
+import { isPattern, matchPattern } from '../matcher.js'
 
 /**
  * Options for creating an {@link EvStateManager}.
@@ -11,19 +20,41 @@ interface EvStateManagerOptions {
 	 * Stream manager responsible for managing client connections
 	 * and broadcasting state updates.
 	 */
-	manager: EvStreamManager
+	manager: EvStreamManager<any>
 
 	/**
 	 * Optional distributed state adapter (e.g. Redis).
 	 * Enables cross-process state propagation.
 	 */
-	adapter?: EvRedisAdapter
+	adapter?: EvStateAdapter
 
 	/**
 	 * Optional Pub/Sub instance used to synchronize
 	 * state creation and removal across instances.
 	 */
-	pubsub?: EvRedisPubSub
+	pubsub?: EvPubSubTransport
+
+	/**
+	 * Broadcast state changes as deltas instead of full values.
+	 */
+	delta?: EvStateDelta
+
+	/**
+	 * Optional storage from which the states are loaded and to which their changes are persisted.
+	 */
+	store?: EvStateStore
+
+	/**
+	 * Resolution of concurrent updates made on several instances. Default is `lww`.
+	 */
+	conflict?: EvStateConflict<any>
+
+	/**
+	 * Disposes of the local copy of a state once its last listener left for this time
+	 * (in milliseconds), `createState` creates it again. States which never had a
+	 * listener are kept. Default is disabled.
+	 */
+	idleTtl?: number
 }
 
 /**
@@ -32,7 +63,9 @@ interface EvStateManagerOptions {
  * Responsibilities:
  * - Create and cache state objects locally
  * - Synchronize state lifecycle (create/remove) across processes
+ * - Request the existing states from the other instances at startup
  * - Bridge EvState with stream manager and adapters
+ * - Dispose of removed and idle states
  *
  * Internally, all state keys are converted to strings to remain
  * Redis-safe and transport-friendly.
@@ -47,83 +80,322 @@ export class EvStateManager<S extends Record<string, any>> {
 	#states = new Map<string, EvState<any>>()
 
 	/** Stream manager used by all states */
-	#manager: EvStreamManager
+	#manager: EvStreamManager<any>
 
 	/** Optional distributed adapter */
-	#adapter?: EvRedisAdapter
+	#adapter?: EvStateAdapter
 
 	/** Optional Pub/Sub synchronizer */
-	#pubsub?: EvRedisPubSub
+	#pubsub?: EvPubSubTransport
+
+	/** Delta format of the states */
+	#delta?: EvStateDelta
+
+	/** Optional state storage */
+	#store?: EvStateStore
+
+	/** Conflict strategy of the states */
+	#conflict?: EvStateConflict<any>
+
+	/**
+	 * Computed states, with their dependencies and the function removing their listeners.
+	 */
+	#computed = new Map<string, { deps: string[]; unsubscribe: () => void }>()
+
+	/**
+	 * States with a projection, which other instances can't create from an announcement.
+	 */
+	#projected = new Set<string>()
+
+	/**
+	 * Scoped states, keyed by channel prefix.
+	 */
+	#scoped = new Map<string, EvScopedState<any>>()
+
+	/** Idle time after which a state without listeners is removed */
+	#idleTtl?: number
+
+	/** Eviction timers of the states without listeners */
+	#idle = new Map<string, ReturnType<typeof setTimeout>>()
+
+	#closed = false
 
 	/**
 	 * Creates a new state manager.
 	 *
 	 * @param options - Initialization options
 	 */
-	constructor({ manager, adapter, pubsub }: EvStateManagerOptions) {
+	constructor({
+		manager,
+		adapter,
+		pubsub,
+		delta,
+		store,
+		conflict,
+		idleTtl,
+	}: EvStateManagerOptions) {
 		this.#manager = manager
 		this.#adapter = adapter
 		this.#pubsub = pubsub
+		this.#delta = delta
+		this.#store = store
+		this.#conflict = conflict
+		this.#idleTtl = idleTtl
 
 		this.pubSubCallback = this.pubSubCallback.bind(this)
+		this.onListen = this.onListen.bind(this)
+		this.onUnlisten = this.onUnlisten.bind(this)
+
+		if (this.#idleTtl !== undefined) {
+			this.#manager.on('listen', this.onListen)
+			this.#manager.on('unlisten', this.onUnlisten)
+		}
 
 		if (this.#pubsub) {
 			this.#pubsub.onMessage(this.pubSubCallback)
+
+			// Late-joining instances receive the states with their latest values
+			this.#send({ type: 'sync' })
 		}
 	}
 
+	/**
+	 * Publishes a lifecycle event, failures are emitted on the manager's `error` event.
+	 */
+	#send(msg: Record<string, any>) {
+		this.#pubsub?.send(msg).catch((error) => this.#manager.report(error))
+	}
+
 	/**
 	 * Creates a state locally without emitting Pub/Sub events.
 	 *
 	 * @param channel - State channel name
 	 * @param initialValue - Initial state value
+	 * @param options - Options of the state
 	 */
-	private createLocalState(channel: string, initialValue: any): EvState<any> {
+	private createLocalState(
+		channel: string,
+		initialValue: any,
+		options?: EvManagedStateOptions<any>
+	): EvState<any> {
 		const state = new EvState({
 			channel,
 			initialValue,
 			manager: this.#manager,
 			adapter: this.#adapter,
+			delta: this.#delta,
+			store: this.#store,
+			conflict: this.#conflict,
+			...options,
 		})
 
 		this.#states.set(channel, state)
+		if (options?.project) this.#projected.add(channel)
 		return state
 	}
 
 	/**
-	 * Removes a state locally without emitting Pub/Sub events.
+	 * Disposes of a state locally without emitting Pub/Sub events.
 	 *
 	 * @param channel - State channel name
 	 */
 	private removeLocalState(channel: string) {
+		this.#states.get(channel)?.dispose()
 		this.#states.delete(channel)
+		this.#projected.delete(channel)
+		this.#computed.get(channel)?.unsubscribe()
+		this.#computed.delete(channel)
+		clearTimeout(this.#idle.get(channel))
+		this.#idle.delete(channel)
+	}
+
+	/**
+	 * Schedules the eviction of a state which lost its last listener.
+	 * Computed states and their dependencies are never evicted.
+	 */
+	#collect(channel: string) {
+		if (
+			this.#idleTtl === undefined ||
+			this.#idle.has(channel) ||
+			this.#computed.has(channel) ||
+			[...this.#computed.values()].some(({ deps }) => deps.includes(channel)) ||
+			this.#manager.listeners(channel).length > 0
+		) {
+			return
+		}
+
+		const timer = setTimeout(() => {
+			this.#idle.delete(channel)
+
+			if (this.#manager.listeners(channel).length === 0) {
+				this.removeLocalState(channel)
+			}
+		}, this.#idleTtl)
+
+		;(timer as { unref?: () => void }).unref?.()
+		this.#idle.set(channel, timer)
+	}
+
+	/**
+	 * Returns the states receiving the messages of a channel or pattern.
+	 */
+	#matching(channel: string) {
+		if (!isPattern(channel)) return this.#states.has(channel) ? [channel] : []
+
+		return [...this.#states.keys()].filter((name) =>
+			matchPattern(channel, name)
+		)
+	}
+
+	/**
+	 * Cancels the eviction of the states a client started listening to.
+	 */
+	private onListen({ channel }: { channel: string }) {
+		this.#matching(channel).forEach((name) => {
+			clearTimeout(this.#idle.get(name))
+			this.#idle.delete(name)
+		})
+	}
+
+	/**
+	 * Schedules the eviction of the states which lost their last listener.
+	 */
+	private onUnlisten({ channel }: { channel: string }) {
+		this.#matching(channel).forEach((name) => this.#collect(name))
 	}
 
 	/**
 	 * Creates or returns an existing state.
 	 *
-	 * If Pub/Sub is enabled, the creation is broadcast
-	 * to other instances.
+	 * If Pub/Sub is enabled, the creation is broadcast to other instances. States with a
+	 * projection aren't announced, every instance must create them with the same projection.
 	 *
 	 * @param key - State key
 	 * @param initialValue - Initial state value
+	 * @param options - Throttling and projection of the state
+	 */
+	createState<K extends keyof S>(
+		key: K,
+		initialValue: S[K],
+		options?: EvManagedStateOptions<S[K]>
+	): EvState<S[K]> {
+		const channel = String(key)
+
+		if (this.#states.has(channel)) {
+			return this.#states.get(channel)! as EvState<S[K]>
+		}
+
+		const state = this.createLocalState(channel, initialValue, options)
+
+		if (!options?.project) {
+			this.#send({
+				type: 'create',
+				channel,
+				initialValue,
+			})
+		}
+
+		return state as EvState<S[K]>
+	}
+
+	/**
+	 * Creates or returns a state derived from other states.
+	 *
+	 * The value is recomputed whenever a dependency changes and broadcast only when the
+	 * result changes. Computed states are local : every instance derives them from its
+	 * own copy of the dependencies, they aren't announced through Pub/Sub.
+	 *
+	 * @param key - State key
+	 * @param deps - Keys of the states the value is computed from
+	 * @param fn - Computes the value from the values of `deps`
 	 */
-	createState<K extends keyof S>(key: K, initialValue: S[K]): EvState<S[K]> {
+	computed<K extends keyof S, const D extends ReadonlyArray<keyof S>>(
+		key: K,
+		deps: D,
+		fn: (...values: { [I in keyof D]: S[D[I] & keyof S] }) => S[K]
+	): EvState<S[K]> {
 		const channel = String(key)
 
 		if (this.#states.has(channel)) {
 			return this.#states.get(channel)! as EvState<S[K]>
 		}
 
-		const state = this.createLocalState(channel, initialValue)
+		const states = deps.map((dep) => {
+			const state = this.#states.get(String(dep))
+
+			if (!state) {
+				throw new Error(`State "${String(dep)}" doesn't exist`)
+			}
 
-		this.#pubsub?.send({
-			type: 'create',
+			return state
+		})
+
+		const compute = () =>
+			(fn as (...values: any[]) => S[K])(...states.map((state) => state.get()))
+
+		const state = new EvState<S[K]>({
 			channel,
-			initialValue,
+			initialValue: compute(),
+			manager: this.#manager,
+			delta: this.#delta,
 		})
 
-		return state as EvState<S[K]>
+		const unsubscribe = states.map((dep) =>
+			dep.subscribe(() => state.set(compute))
+		)
+
+		this.#states.set(channel, state)
+		this.#computed.set(channel, {
+			deps: deps.map(String),
+			unsubscribe: () => unsubscribe.forEach((fn) => fn()),
+		})
+
+		return state
+	}
+
+	/**
+	 * Creates or returns a state holding one value per scope, see {@link EvScopedState}.
+	 *
+	 * The value of scope `x` is broadcast to the channel `<key>:x`. Scopes are created on
+	 * every instance where a client listens to them and aren't announced through Pub/Sub.
+	 *
+	 * @param key - State key, used as the prefix of the scope channels
+	 * @param initialValue - Value of a scope when a client starts listening to it
+	 * @param options - Throttling and projection of the scope states
+	 */
+	scoped<K extends keyof S>(
+		key: K,
+		initialValue: (scope: string, client: EvListenerInfo) => S[K],
+		options?: EvManagedStateOptions<S[K]>
+	): EvScopedState<S[K]> {
+		const channel = String(key)
+		let scoped = this.#scoped.get(channel)
+
+		if (!scoped) {
+			scoped = new EvScopedState({
+				channel,
+				initialValue,
+				manager: this.#manager,
+				adapter: this.#adapter,
+				delta: this.#delta,
+				store: this.#store,
+				conflict: this.#conflict,
+				...options,
+			})
+
+			this.#scoped.set(channel, scoped)
+		}
+
+		return scoped
+	}
+
+	/**
+	 * Runs `fn` and broadcasts the states it changes once it returns, see {@link EvState.batch}.
+	 *
+	 * @param fn - Synchronous function updating states
+	 */
+	batch<R>(fn: () => R): R {
+		return EvState.batch(fn)
 	}
 
 	/**
@@ -145,8 +417,10 @@ export class EvStateManager<S extends Record<string, any>> {
 	}
 
 	/**
-	 * Removes a state locally and propagates the removal
-	 * to other instances via Pub/Sub.
+	 * Disposes of a state, deletes its stored value and propagates
+	 * the removal to other instances via Pub/Sub.
+	 *
+	 * Local clients listening to the state receive a `state:removed` event.
 	 *
 	 * @param key - State key
 	 */
@@ -154,19 +428,54 @@ export class EvStateManager<S extends Record<string, any>> {
 		const channel = String(key)
 
 		this.removeLocalState(channel)
+		this.#store?.delete(channel).catch((error) => this.#manager.report(error))
 
-		this.#pubsub?.send({
+		this.#send({
 			type: 'remove',
 			channel,
 		})
 	}
 
+	/**
+	 * Disposes of every state locally, other instances keep their states.
+	 * Pub/Sub messages are ignored afterwards, the Pub/Sub itself isn't closed.
+	 */
+	close() {
+		if (this.#closed) return
+
+		this.#closed = true
+		this.#manager.off('listen', this.onListen)
+		this.#manager.off('unlisten', this.onUnlisten)
+
+		for (const channel of [...this.#states.keys()]) {
+			this.removeLocalState(channel)
+		}
+
+		this.#scoped.forEach((scoped) => scoped.dispose())
+		this.#scoped.clear()
+	}
+
 	/**
 	 * Handles incoming Pub/Sub lifecycle events.
 	 *
 	 * @param msg - Pub/Sub message payload
 	 */
 	private pubSubCallback(msg: any) {
+		if (this.#closed) return
+
+		if (msg?.type === 'sync') {
+			this.#states.forEach((state, channel) => {
+				if (this.#computed.has(channel) || this.#projected.has(channel)) return
+
+				this.#send({
+					type: 'create',
+					channel,
+					initialValue: state.get(),
+				})
+			})
+			return
+		}
+
 		if (!msg || typeof msg.channel !== 'string') return
 
 		switch (msg.type) {
@@ -0,0 +1,127 @@
+import { compareEventId } from './utils.js'
+
+import type { EvHistoryStore, EvMessage } from './types.js'
+
+/**
+ * Options for creating an {@link EvMemoryHistory}.
+ */
+interface EvMemoryHistoryOptions {
+	/** Max number of messages kept per channel. Default is 100. */
+	maxLength?: number
+
+	/** Time (in seconds) a message is kept, channels without messages are removed. Default is 300. */
+	ttl?: number
+}
+
+/**
+ * Returns the messages which were sent after `lastId`.
+ *
+ * If `lastId` is present in the list everything after it is returned, otherwise
+ * messages are compared using their `eventId()` ordering.
+ *
+ * @param messages - Messages ordered from oldest to newest
+ * @param lastId - Last event id received by the client
+ */
+export function historyAfter(messages: EvMessage[], lastId: string) {
+	const index = messages.findIndex((msg) => msg.id === lastId)
+
+	if (index !== -1) {
+		return messages.slice(index + 1)
+	}
+
+	return messages.filter((msg) => {
+		if (!msg.id) return false
+
+		return compareEventId(msg.id, lastId) > 0
+	})
+}
+
+/**
+ * In-memory implementation of {@link EvHistoryStore}.
+ *
+ * Keeps a bounded buffer of the latest messages for every channel. Messages expire
+ * after `ttl`, so channels which stopped receiving messages don't keep memory.
+ * Used by `EvStreamManager` when `history` is `true`.
+ */
+export class EvMemoryHistory implements EvHistoryStore {
+	/** Channel → messages with their expiry, ordered from oldest to newest */
+	#channels: Map<string, { msg: EvMessage; expires: number }[]>
+
+	/** Max number of messages kept per channel */
+	#maxLength: number
+
+	/** Time (in milliseconds) a message is kept */
+	#ttl: number
+
+	/** Removes the expired messages while the history isn't empty */
+	#sweep?: ReturnType<typeof setInterval>
+
+	constructor(opts?: EvMemoryHistoryOptions) {
+		this.#channels = new Map()
+		this.#maxLength = opts?.maxLength || 100
+		this.#ttl = (opts?.ttl || 300) * 1000
+	}
+
+	/**
+	 * Drops the expired messages of every channel and the channels left empty.
+	 */
+	#prune() {
+		const now = Date.now()
+
+		this.#channels.forEach((messages, channel) => {
+			const index = messages.findIndex(({ expires }) => expires > now)
+
+			if (index === -1) {
+				this.#channels.delete(channel)
+			} else if (index > 0) {
+				messages.splice(0, index)
+			}
+		})
+
+		if (this.#channels.size === 0) {
+			clearInterval(this.#sweep)
+			this.#sweep = undefined
+		}
+	}
+
+	/**
+	 * Records a message for the channel, dropping the oldest one when the buffer is full.
+	 *
+	 * @param channel - Channel name
+	 * @param msg - Message sent to the channel
+	 */
+	async append(channel: string, msg: EvMessage) {
+		let messages = this.#channels.get(channel)
+
+		if (!messages) {
+			messages = []
+			this.#channels.set(channel, messages)
+		}
+
+		messages.push({ msg, expires: Date.now() + this.#ttl })
+
+		if (messages.length > this.#maxLength) {
+			messages.shift()
+		}
+
+		if (!this.#sweep) {
+			this.#sweep = setInterval(() => this.#prune(), this.#ttl)
+			;(this.#sweep as { unref?: () => void }).unref?.()
+		}
+	}
+
+	/**
+	 * Returns the channel messages sent after `lastId`.
+	 *
+	 * @param channel - Channel name
+	 * @param lastId - Last event id received by the client
+	 */
+	async range(channel: string, lastId: string) {
+		const now = Date.now()
+		const messages = (this.#channels.get(channel) || [])
+			.filter(({ expires }) => expires > now)
+			.map(({ msg }) => msg)
+
+		return historyAfter(messages, lastId)
+	}
+}
@@ -1,28 +1,156 @@
 import { Evstream } from './stream.js'
 import { EvStreamManager } from './manager.js'
 import { EvState } from './state.js'
+import { EvScopedState } from './scoped-state.js'
+import { EvMemoryHistory } from './history.js'
+import { EvMemoryPubSub } from './adapters/memory.js'
+import { EvThrottle } from './throttle.js'
+import { EvMemoryStateStore } from './state-store.js'
+import { EvNodeTransport, EvWebTransport } from './transport.js'
+import {
+	jsonSerializer,
+	superJsonSerializer,
+	msgpackSerializer,
+} from './serializers.js'
 
-import { EvMaxListenerError, EvMaxConnectionsError } from './errors.js'
+import {
+	EvMaxListenerError,
+	EvMaxConnectionsError,
+	EvShutdownError,
+	EvValidationError,
+	EvRequestTimeoutError,
+	EvStreamClosedError,
+} from './errors.js'
 
 import {
-    EvOptions,
-    EvAuthenticationOptions,
-    EvEventsType,
-    EvManagerOptions,
-    EvMessage,
-    EvStateOptions,
+	EvOptions,
+	EvAuthenticationOptions,
+	EvEventsType,
+	EvManagerOptions,
+	EvMessage,
+	EvStateOptions,
+	EvHistoryStore,
+	EvRequest,
+	EvTransport,
+	EvOverflowPolicy,
+	EvSlowConsumerInfo,
+	EvManagerEvents,
+	EvPresenceMember,
+	EvPresenceStore,
+	EvShutdownOptions,
+	EvSerializer,
+	EvIdentity,
+	EvAuthResult,
+	EvVerifyResult,
+	EvTokenAuthenticationOptions,
+	EvCustomAuthenticationOptions,
+	EvAuthorize,
+	EvAuthorizeResult,
+	EvManagerStats,
+	EvPubSubTransport,
+	EvPubSubEvents,
+	EvConnectionState,
+	EvRoutingOptions,
+	EvChannelMap,
+	EvChannelMessage,
+	EvChannelName,
+	EvValidator,
+	EvStandardSchema,
+	EvSafeParseSchema,
+	EvValidationIssue,
+	EvSchemas,
+	EvEnvelope,
+	EvErrorEventData,
+	EvShutdownEventData,
+	EvThrottleOptions,
+	EvRateLimitOptions,
+	EvPatchOperation,
+	EvStatePath,
+	EvStateDelta,
+	EvStateStore,
+	EvVersionedState,
+	EvStateConflict,
+	EvListenerInfo,
+	EvStateProjection,
+	EvScopedStateOptions,
+	EvManagedStateOptions,
+	EvRequestEventData,
+	EvRequestOptions,
+	EvCompression,
 } from './types.js'
 
 export {
-    EvMaxConnectionsError,
-    EvMaxListenerError,
-    Evstream,
-    EvStreamManager,
-    EvState,
-    EvOptions,
-    EvAuthenticationOptions,
-    EvEventsType,
-    EvManagerOptions,
-    EvMessage,
-    EvStateOptions,
+	EvMaxConnectionsError,
+	EvMaxListenerError,
+	EvShutdownError,
+	EvValidationError,
+	EvRequestTimeoutError,
+	EvStreamClosedError,
+	Evstream,
+	EvStreamManager,
+	EvState,
+	EvScopedState,
+	EvMemoryHistory,
+	EvMemoryPubSub,
+	EvThrottle,
+	EvMemoryStateStore,
+	EvNodeTransport,
+	EvWebTransport,
+	jsonSerializer,
+	superJsonSerializer,
+	msgpackSerializer,
+	EvOptions,
+	EvAuthenticationOptions,
+	EvEventsType,
+	EvManagerOptions,
+	EvMessage,
+	EvStateOptions,
+	EvHistoryStore,
+	EvRequest,
+	EvTransport,
+	EvOverflowPolicy,
+	EvSlowConsumerInfo,
+	EvManagerEvents,
+	EvPresenceMember,
+	EvPresenceStore,
+	EvShutdownOptions,
+	EvSerializer,
+	EvIdentity,
+	EvAuthResult,
+	EvVerifyResult,
+	EvTokenAuthenticationOptions,
+	EvCustomAuthenticationOptions,
+	EvAuthorize,
+	EvAuthorizeResult,
+	EvManagerStats,
+	EvPubSubTransport,
+	EvPubSubEvents,
+	EvConnectionState,
+	EvRoutingOptions,
+	EvChannelMap,
+	EvChannelMessage,
+	EvChannelName,
+	EvValidator,
+	EvStandardSchema,
+	EvSafeParseSchema,
+	EvValidationIssue,
+	EvSchemas,
+	EvEnvelope,
+	EvErrorEventData,
+	EvShutdownEventData,
+	EvThrottleOptions,
+	EvRateLimitOptions,
+	EvPatchOperation,
+	EvStatePath,
+	EvStateDelta,
+	EvStateStore,
+	EvVersionedState,
+	EvStateConflict,
+	EvListenerInfo,
+	EvStateProjection,
+	EvScopedStateOptions,
+	EvManagedStateOptions,
+	EvRequestEventData,
+	EvRequestOptions,
+	EvCompression,
 }
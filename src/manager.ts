@@ -1,96 +1,616 @@
-import { IncomingMessage, ServerResponse } from 'http'
+import type { IncomingMessage, ServerResponse } from 'http'
 
 import { Evstream } from './stream.js'
-import { uid } from './utils.js'
-import { EvMaxConnectionsError, EvMaxListenerError } from './errors.js'
+import { EvEmitter } from './emitter.js'
+import { EvPatternTrie, isPattern, matchPattern } from './matcher.js'
+import { EvNodeTransport, EvWebTransport } from './transport.js'
+import { EvMemoryHistory } from './history.js'
+import {
+	EvRouter,
+	channelSubject,
+	nodeSubject,
+	supportsRouting,
+} from './router.js'
+import { compareEventId, eventId, uid } from './utils.js'
+import {
+	EvMaxConnectionsError,
+	EvMaxListenerError,
+	EvRequestTimeoutError,
+	EvShutdownError,
+	EvStreamClosedError,
+} from './errors.js'
+import { EvSchemaRegistry } from './validation.js'
+import { EvThrottle } from './throttle.js'
 
 import type {
+	EvAuthorize,
+	EvAuthorizeResult,
+	EvChannelMap,
+	EvChannelMessage,
+	EvChannelName,
+	EvEnvelope,
+	EvErrorEventData,
+	EvHistoryStore,
+	EvListenerInfo,
+	EvManagerEvents,
 	EvManagerOptions,
+	EvManagerStats,
 	EvMessage,
 	EvOnClose,
 	EvOptions,
+	EvPubSubTransport,
+	EvRequestEventData,
+	EvRequestOptions,
+	EvSerializer,
+	EvShutdownEventData,
+	EvShutdownOptions,
+	EvThrottleOptions,
+	EvTransport,
 } from './types.js'
-import type { EvRedisPubSub } from './adapters/pub-sub.js'
+
+/**
+ * Normalized result of an authorization check.
+ */
+interface EvAuthorization {
+	allow: boolean
+	reason?: string
+}
+
+/**
+ * Connection state kept for every local client.
+ */
+interface EvClient {
+	stream: Evstream
+	channels: Set<string>
+	// Authorization hook applying to the client
+	authorize?: EvAuthorize
+	// Cached authorization results, keyed by channel
+	authorized: Map<string, EvAuthorization | Promise<EvAuthorization>>
+	listen(name: string): boolean | Promise<boolean>
+	unlisten(name: string): void
+	close(): void
+}
+
+/**
+ * Request sent to a local client and waiting for its answer.
+ */
+interface EvPendingRequest {
+	resolve(payload: unknown): void
+	reject(error: Error): void
+}
+
+function toAuthorization(result: EvAuthorizeResult): EvAuthorization {
+	if (result && typeof result === 'object') {
+		return { allow: result.allow === true, reason: result.reason }
+	}
+
+	return { allow: result === true }
+}
 
 /**
  * `EvStreamManager` manages multiple SSE connections.
  * Handles client creation, broadcasting messages, and channel-based listeners.
+ *
+ * @typeParam C - Mapping of channel names to their event names and payload types
  */
-export class EvStreamManager {
-	#clients: Map<string, Evstream>
+export class EvStreamManager<C extends object = EvChannelMap> {
+	#clients: Map<string, EvClient>
+	#users: Map<string, Set<string>>
 	#listeners: Map<string, Set<string>>
+	#patterns: EvPatternTrie
 	#count: number
 	#maxConnections: number
 	#maxListeners: number
-	#pubSub?: EvRedisPubSub
+	#pubSub?: EvPubSubTransport
+	#router?: EvRouter
 	#id?: string
+	#history?: EvHistoryStore
+	#replayWindow: number
+	// Ids of the messages delivered live to a client while its history loads, with the number of loading replays
+	#replaying: Map<string, { delivered: Set<string>; pending: number }>
+	#events: EvEmitter<EvManagerEvents>
+	#shutdown?: Promise<void>
+	#serializer?: EvSerializer
+	#authorize?: EvAuthorize
+	#cacheAuthorization: boolean
+	#metrics: EvManagerStats['messages']
+	#errors: Map<string, number>
+	#schemas?: EvSchemaRegistry
+	#policies: Map<string, EvThrottleOptions>
+	#throttles: Map<string, EvThrottle<EvMessage>>
+	#requests: Map<string, EvPendingRequest>
 
 	constructor(opts?: EvManagerOptions) {
 		this.#clients = new Map()
+		this.#users = new Map()
+		this.#events = new EvEmitter()
 		this.#listeners = new Map()
+		this.#patterns = new EvPatternTrie()
+		this.#replaying = new Map()
 		this.#count = 0
+		this.#metrics = { sent: 0, delivered: 0, pubSubIn: 0, pubSubOut: 0 }
+		this.#errors = new Map()
 
 		this.#maxConnections = opts?.maxConnection || 5000
 		this.#maxListeners = opts?.maxListeners || 5000
 		this.#id = opts?.id
+		this.#serializer = opts?.serializer
+		this.#authorize = opts?.authorize
+		this.#cacheAuthorization = opts?.cacheAuthorization ?? true
+		this.#schemas = opts?.schemas && new EvSchemaRegistry(opts.schemas)
+		this.#policies = new Map(Object.entries(opts?.throttle || {}))
+		this.#throttles = new Map()
+		this.#requests = new Map()
 
 		this.#pubSub = opts?.pubSub
+		this.#history =
+			opts?.history === true
+				? new EvMemoryHistory()
+				: opts?.history || undefined
+		this.#replayWindow = opts?.replayWindow ?? 10000
+
+		if (opts?.routing && this.#pubSub) {
+			if (!supportsRouting(this.#pubSub)) {
+				throw new Error('Routing requires a pubSub supporting subjects')
+			}
+
+			// Instances don't receive the messages of channels they don't listen to, so they can't record them
+			if (this.#history && !this.#history.shared) {
+				throw new Error(
+					'Routing requires a shared history, e.g. EvRedisHistory'
+				)
+			}
+		}
 
 		if (this.#pubSub) {
 			this.#pubSub.onMessage((msg) => this.#onMessage(msg))
+			this.#pubSub.on?.('error', (error) => this.#error(error))
 		}
+
+		if (opts?.routing && this.#pubSub) {
+			this.#router = new EvRouter({
+				...(typeof opts.routing === 'object' ? opts.routing : {}),
+				node: uid({ prefix: this.#id, counter: Math.random() }),
+				transport: this.#pubSub!,
+				publish: (msg, subject) => this.#publish(msg, subject),
+				snapshot: () => ({
+					channels: [...this.#listeners.keys()],
+					patterns: this.#patterns.patterns(),
+					clients: [...this.#clients.keys()],
+				}),
+				onError: (error) => this.#error(error),
+			})
+		}
+	}
+
+	/**
+	 * Registers a listener for a manager event.
+	 *
+	 * - `connect` / `disconnect` : a client connected or disconnected
+	 * - `listen` : a local client started listening to a channel
+	 * - `unlisten` : a local client stopped listening to a channel (also emitted on close)
+	 * - `send` : a message was sent to a channel from this instance
+	 * - `deliver` : a channel message was fanned out to the local listeners
+	 * - `error` : a limit was reached or the Pub/Sub / history / a state failed
+	 * - `pubsub-in` / `pubsub-out` : a message was received from / published to the Pub/Sub
+	 * - `slow-consumer` : a client exceeded its `highWaterMark`
+	 */
+	on<K extends keyof EvManagerEvents>(event: K, listener: EvManagerEvents[K]) {
+		this.#events.on(event, listener)
+	}
+
+	/**
+	 * Removes a listener of a manager event.
+	 */
+	off<K extends keyof EvManagerEvents>(event: K, listener: EvManagerEvents[K]) {
+		this.#events.off(event, listener)
+	}
+
+	/**
+	 * Returns a snapshot of the connections, listeners and message counters.
+	 */
+	stats(): EvManagerStats {
+		const channels: Record<string, number> = {}
+		const patterns: Record<string, number> = {}
+
+		this.#listeners.forEach((ids, name) => {
+			channels[name] = ids.size
+		})
+
+		this.#patterns.patterns().forEach((pattern) => {
+			patterns[pattern] = this.#patterns.size(pattern)
+		})
+
+		return {
+			connections: this.#count,
+			channels,
+			patterns,
+			messages: { ...this.#metrics },
+			errors: Object.fromEntries(this.#errors),
+		}
+	}
+
+	/**
+	 * Emits an error raised outside of the manager, e.g. by a state, on the `error` event.
+	 */
+	report(error: Error) {
+		this.#error(error)
+	}
+
+	/**
+	 * Counts and emits an error. Returns the error so it can be thrown.
+	 */
+	#error<E extends Error>(error: E) {
+		this.#errors.set(error.name, (this.#errors.get(error.name) || 0) + 1)
+		this.#events.emit('error', error)
+		return error
+	}
+
+	/**
+	 * Publishes a message to the Pub/Sub, to a single subject when routing is enabled and `subject` is set.
+	 */
+	#publish(msg: Record<string, any>, subject?: string) {
+		if (!this.#pubSub) return
+
+		this.#metrics.pubSubOut += 1
+		this.#events.emit('pubsub-out', msg)
+
+		const sent =
+			subject && this.#router
+				? this.#pubSub.publishTo!(subject, msg)
+				: this.#pubSub.send(msg)
+
+		sent.catch((error) => this.#error(error))
+	}
+
+	/**
+	 * Subject of the instance owning a remote client. Undefined broadcasts to every instance.
+	 */
+	#ownerSubject(id: string) {
+		const owner = this.#router?.owner(id)
+
+		return owner && nodeSubject(owner)
 	}
 
 	/**
 	 * Creates a new SSE stream
 	 */
 	createStream(req: IncomingMessage, res: ServerResponse, opts?: EvOptions) {
+		return this.#register(new EvNodeTransport(req, res), opts)
+	}
+
+	/**
+	 * Creates a new SSE stream from a Fetch API `Request`.
+	 *
+	 * The returned `response` must be sent back from the route handler.
+	 */
+	createStreamFromRequest(request: Request, opts?: EvOptions) {
+		const transport = new EvWebTransport(request)
+		const handle = this.#register(transport, opts)
+
+		return { response: transport.response, ...handle }
+	}
+
+	/**
+	 * Creates a stream over the transport and tracks it as a client.
+	 */
+	#register(transport: EvTransport, opts?: EvOptions) {
+		if (this.#shutdown) {
+			throw this.#error(new EvShutdownError())
+		}
+
 		if (this.#count >= this.#maxConnections) {
-			throw new EvMaxConnectionsError(this.#maxConnections)
+			throw this.#error(new EvMaxConnectionsError(this.#maxConnections))
 		}
 
-		const client = new Evstream(req, res, opts)
 		const id = uid({ counter: this.#count, prefix: this.#id })
-		const channels: string[] = []
+		const client = new Evstream(transport, {
+			serializer: this.#serializer,
+			...opts,
+			onSlowConsumer: (info) => {
+				opts?.onSlowConsumer?.(info)
+				this.#events.emit('slow-consumer', { id, ...info })
+			},
+		})
+		const channels = new Set<string>()
+		const replay: string[] = []
+		const connectedAt = Date.now()
+		// Correlation ids of the pending requests
+		const requests = new Set<string>()
 		let isClosed = false
 
+		const subscribe = (name: string) => {
+			this.#listen(name, id)
+			channels.add(name)
+			this.#events.emit('listen', {
+				id,
+				channel: name,
+				identity: client.identity,
+			})
+
+			// Channels listened to later weren't missed during the reconnection
+			if (
+				client.lastEventId &&
+				this.#history &&
+				!isPattern(name) &&
+				Date.now() - connectedAt <= this.#replayWindow
+			) {
+				replay.push(name)
+
+				if (replay.length === 1) {
+					const replaying = this.#replaying.get(id)
+
+					if (replaying) {
+						replaying.pending += 1
+					} else {
+						this.#replaying.set(id, { delivered: new Set(), pending: 1 })
+					}
+
+					Promise.resolve().then(() =>
+						this.#replay(id, replay.splice(0), client.lastEventId)
+					)
+				}
+			}
+		}
+
+		const listen = (name: string) => {
+			if (isClosed) return false
+			if (channels.has(name)) return true
+
+			if (!record.authorize) {
+				subscribe(name)
+				return true
+			}
+
+			const onResult = ({ allow, reason }: EvAuthorization) => {
+				if (isClosed) return false
+
+				if (!allow) {
+					const data: EvErrorEventData = {
+						message: 'unauthorized',
+						channel: name,
+						reason,
+					}
+
+					client.message({ event: 'error', data })
+					return false
+				}
+
+				if (!channels.has(name)) subscribe(name)
+				return true
+			}
+
+			const result = this.#authorizeChannel(record, name)
+
+			return result instanceof Promise
+				? result.then(onResult)
+				: onResult(result)
+		}
+
+		const unlisten = (name: string) => {
+			if (!channels.has(name)) return
+			channels.delete(name)
+			this.#unlisten(name, id)
+			this.#events.emit('unlisten', { id, channel: name })
+		}
+
+		const request = (
+			event: string,
+			data?: unknown,
+			opts?: EvRequestOptions
+		) => {
+			if (isClosed) return Promise.reject(new EvStreamClosedError())
+
+			// Prefixed with the client ID, so `resolve()` finds the instance owning the client
+			const cid = `${id}:${uid({ counter: requests.size })}`
+			const timeout = opts?.timeout ?? 30000
+
+			return new Promise<unknown>((resolve, reject) => {
+				const settle = () => {
+					clearTimeout(timer)
+					requests.delete(cid)
+					this.#requests.delete(cid)
+				}
+
+				const timer = setTimeout(() => {
+					settle()
+					reject(new EvRequestTimeoutError(event, timeout))
+				}, timeout)
+
+				requests.add(cid)
+				this.#requests.set(cid, {
+					resolve: (payload) => {
+						settle()
+						resolve(payload)
+					},
+					reject: (error) => {
+						settle()
+						reject(error)
+					},
+				})
+
+				const message: EvRequestEventData = { cid, data }
+				client.message({ event, data: message })
+			})
+		}
+
+		const record: EvClient = {
+			stream: client,
+			channels,
+			authorize: opts?.authorize || this.#authorize,
+			authorized: new Map(),
+			listen,
+			unlisten,
+			close: () => close(),
+		}
+
 		this.#count += 1
-		this.#clients.set(id, client)
+		this.#clients.set(id, record)
+		this.#router?.add('clients', id)
+		this.#events.emit('connect', { id })
 
 		const close = (onClose?: EvOnClose) => {
 			if (isClosed) return
 			isClosed = true
 
 			if (typeof onClose === 'function') {
-				onClose(channels)
+				onClose([...channels])
 			}
 
-			res.removeAllListeners('close')
+			removeCloseListener()
 			client.close()
 
 			this.#count -= 1
-			channels.forEach((ch) => this.#unlisten(ch, id))
-			channels.length = 0
+			this.#replaying.delete(id)
+			this.#removeUser(client.identity?.id, id)
+			record.authorized.clear()
+
+			for (const cid of [...requests]) {
+				this.#requests.get(cid)?.reject(new EvStreamClosedError())
+			}
+
+			const names = [...channels]
+			channels.forEach((ch) => {
+				this.#unlisten(ch, id)
+				this.#events.emit('unlisten', { id, channel: ch })
+			})
+			channels.clear()
 			this.#clients.delete(id)
+			this.#router?.remove('clients', id)
+			this.#events.emit('disconnect', { id, channels: names })
 
-			if (!res.writableEnded) res.end()
+			transport.end()
 		}
 
-		res.on('close', close)
+		const removeCloseListener = transport.onClose(close)
 
 		return {
 			id: id,
-			authenticate: client.authenticate.bind(client),
+			authenticate: async () => {
+				const isAuthenticated = await client.authenticate()
+
+				if (isAuthenticated && client.identity && !isClosed) {
+					this.#addUser(client.identity.id, id)
+				}
+
+				return isAuthenticated
+			},
+			identity: () => client.identity,
 			message: client.message.bind(client),
 			close,
-			listen: (name: string) => {
-				if (isClosed) return
-				channels.push(name)
-				this.#listen(name, id)
-			},
+			listen: (name: EvChannelName<C>) => listen(name),
+			unlisten: (name: EvChannelName<C>) => unlisten(name),
+			request: <R = unknown>(
+				event: string,
+				data?: unknown,
+				opts?: EvRequestOptions
+			) => request(event, data, opts) as Promise<R>,
+			channels: () => [...channels],
+			isListening: (name: EvChannelName<C>) => channels.has(name),
 		}
 	}
 
+	/**
+	 * Gracefully closes every client.
+	 *
+	 * - New streams are rejected with `EvShutdownError`
+	 * - Every client receives a `shutdown` event with a jittered `retry` hint, so clients don't reconnect at once
+	 * - Clients are closed in batches of `batchSize`, remaining clients are closed at once after `timeout`
+	 * - The Pub/Sub subscription is removed
+	 *
+	 * Calling it again returns the same promise.
+	 */
+	shutdown(opts?: EvShutdownOptions) {
+		if (!this.#shutdown) {
+			this.#shutdown = this.#drain(opts)
+		}
+
+		return this.#shutdown
+	}
+
+	async #drain(opts?: EvShutdownOptions) {
+		const retryMs = opts?.retryMs ?? 1000
+		const jitter = opts?.jitter ?? retryMs
+		const batchSize = opts?.batchSize || 100
+		const batchInterval = opts?.batchInterval ?? 50
+		const deadline = Date.now() + (opts?.timeout ?? 10000)
+		const ids = [...this.#clients.keys()]
+
+		const data: EvShutdownEventData = { reason: opts?.reason || '' }
+
+		// Throttled messages are delivered before clients are told to leave
+		this.#throttles.forEach((throttle) => throttle.flush())
+
+		for (const id of ids) {
+			this.#clients.get(id)?.stream.message({
+				event: 'shutdown',
+				data,
+				retry: retryMs + Math.floor(Math.random() * jitter),
+			})
+		}
+
+		for (let i = 0; i < ids.length && Date.now() < deadline; i += batchSize) {
+			ids
+				.slice(i, i + batchSize)
+				.forEach((id) => this.#clients.get(id)?.close())
+
+			if (i + batchSize < ids.length) {
+				await new Promise((resolve) => setTimeout(resolve, batchInterval))
+			}
+		}
+
+		this.#clients.forEach((client) => client.close())
+		this.#router?.close()
+		this.#throttles.forEach((throttle) => throttle.cancel())
+
+		if (this.#pubSub) {
+			await this.#pubSub.unsubscribe().catch(() => {
+				// Connection is already gone
+			})
+		}
+	}
+
+	/**
+	 * Subscribes a client to a channel.
+	 *
+	 * If the client isn't connected to this instance, the subscription is
+	 * forwarded through Redis so the instance owning the client can apply it.
+	 *
+	 * For local clients, returns whether the subscription was authorized.
+	 */
+	subscribe(id: string, channel: EvChannelName<C>) {
+		const client = this.#clients.get(id)
+
+		if (client) {
+			return client.listen(channel)
+		}
+
+		this.#publish(
+			{ type: 'subscribe', data: { id, name: channel } },
+			this.#ownerSubject(id)
+		)
+	}
+
+	/**
+	 * Unsubscribes a client from a channel.
+	 *
+	 * If the client isn't connected to this instance, the request is
+	 * forwarded through Redis.
+	 */
+	unsubscribe(id: string, channel: EvChannelName<C>) {
+		const client = this.#clients.get(id)
+
+		if (client) {
+			client.unlisten(channel)
+			return
+		}
+
+		this.#publish(
+			{ type: 'unsubscribe', data: { id, name: channel } },
+			this.#ownerSubject(id)
+		)
+	}
+
 	/**
 	 * Sends a message directly to a local client by ID.
 	 *
@@ -101,7 +621,7 @@ export class EvStreamManager {
 		const client = this.#clients.get(id)
 
 		if (client) {
-			client.message({
+			client.stream.message({
 				data: msg,
 			})
 		}
@@ -120,63 +640,436 @@ export class EvStreamManager {
 		const client = this.toLocal(id, msg)
 
 		if (!client) {
-			if (this.#pubSub) {
-				this.#pubSub.send({ type: 'to', data: { id: id, message: msg } })
+			this.#publish(
+				{ type: 'to', data: { id: id, message: msg } },
+				this.#ownerSubject(id)
+			)
+		}
+	}
+
+	/**
+	 * Answers a request sent with `request()` of a stream handle, e.g. from the route receiving
+	 * the answer of the client. The promise of the request resolves with `payload`.
+	 *
+	 * Requests of clients connected to other instances are resolved through the Pub/Sub.
+	 * Returns whether the request was pending on this instance.
+	 */
+	resolve(cid: string, payload?: unknown) {
+		const pending = this.#requests.get(cid)
+
+		if (pending) {
+			pending.resolve(payload)
+			return true
+		}
+
+		const separator = typeof cid === 'string' ? cid.lastIndexOf(':') : -1
+
+		// Correlation ids are `<client id>:<request id>`, malformed ones aren't published
+		if (separator <= 0) return false
+
+		const id = cid.slice(0, separator)
+
+		// Unknown requests of local clients already timed out
+		if (!this.#clients.has(id)) {
+			this.#publish(
+				{ type: 'resolve', data: { cid, payload } },
+				this.#ownerSubject(id)
+			)
+		}
+
+		return false
+	}
+
+	/**
+	 * Wraps a channel message with the channel name.
+	 * Object data gets a `ch` field, any other value is sent as `{ ch, data }`.
+	 */
+	#envelope(name: string, msg: EvMessage): EvMessage {
+		const data: EvEnvelope<EvMessage['data']> =
+			typeof msg.data === 'object'
+				? { ch: name, ...msg.data }
+				: { ch: name, data: msg.data }
+
+		return { ...msg, data }
+	}
+
+	/**
+	 * Replays the history of the channels a reconnecting client listened to.
+	 *
+	 * Messages which were already delivered live while the history was loading are skipped.
+	 */
+	async #replay(id: string, channels: string[], lastEventId: string) {
+		let messages: { name: string; msg: EvMessage }[] = []
+
+		try {
+			const ranges = await Promise.all(
+				channels.map((name) => this.#history!.range(name, lastEventId))
+			)
+
+			ranges.forEach((range, i) => {
+				messages = messages.concat(
+					range.map((msg) => ({ name: channels[i], msg }))
+				)
+			})
+		} catch {
+			// Ignore history lookup failures, the client keeps receiving live messages
+		}
+
+		const replaying = this.#replaying.get(id)
+		const client = this.#clients.get(id)
+
+		if (replaying && --replaying.pending === 0) {
+			this.#replaying.delete(id)
+		}
+
+		if (!client) return
+
+		messages
+			.sort((a, b) => compareEventId(a.msg.id, b.msg.id) || 0)
+			.forEach(({ name, msg }) => {
+				if (replaying?.delivered.has(msg.id)) return
+				client.stream.message(this.#envelope(name, msg))
+			})
+	}
+
+	/**
+	 * Runs the authorization hook of a client for a channel.
+	 *
+	 * Results are cached per connection (unless `cacheAuthorization` is disabled), pending
+	 * results are cached as well so concurrent checks share the same hook call.
+	 * A throwing or rejecting hook denies the channel.
+	 */
+	#authorizeChannel(
+		client: EvClient,
+		channel: string
+	): EvAuthorization | Promise<EvAuthorization> {
+		const cached = client.authorized.get(channel)
+
+		if (cached) return cached
+
+		let result: EvAuthorization | Promise<EvAuthorization>
+
+		try {
+			const value = client.authorize(client.stream.identity, channel)
+
+			result =
+				value instanceof Promise
+					? value.then(toAuthorization, () => ({
+							allow: false,
+							reason: 'authorization failed',
+						}))
+					: toAuthorization(value)
+		} catch {
+			result = { allow: false, reason: 'authorization failed' }
+		}
+
+		if (this.#cacheAuthorization) {
+			client.authorized.set(channel, result)
+
+			if (result instanceof Promise) {
+				result.then((value) => {
+					if (client.authorized.get(channel) === result) {
+						client.authorized.set(channel, value)
+					}
+				})
 			}
 		}
+
+		return result
+	}
+
+	/**
+	 * Tracks a connection of an authenticated user.
+	 */
+	#addUser(userId: string, id: string) {
+		let ids = this.#users.get(userId)
+
+		if (!ids) {
+			ids = new Set()
+			this.#users.set(userId, ids)
+		}
+
+		ids.add(id)
+	}
+
+	/**
+	 * Removes a connection of an authenticated user.
+	 */
+	#removeUser(userId: string | undefined, id: string) {
+		const ids = userId !== undefined && this.#users.get(userId)
+
+		if (!ids) return
+
+		ids.delete(id)
+
+		if (ids.size === 0) {
+			this.#users.delete(userId)
+		}
+	}
+
+	/**
+	 * Sends a message to every local connection of a user.
+	 */
+	private toUserLocal(userId: string, msg: EvMessage) {
+		this.#users.get(userId)?.forEach((id) => this.toLocal(id, msg))
+	}
+
+	/**
+	 * Sends a message to every connection of a user (e.g. every open tab).
+	 *
+	 * Users are identified by the `identity.id` returned by the authentication `verify` function.
+	 * The message is also forwarded through Redis to reach connections on other instances.
+	 */
+	toUser(userId: string, msg: EvMessage) {
+		this.toUserLocal(userId, msg)
+
+		this.#publish({ type: 'user', data: { id: userId, message: msg } })
 	}
 
 	/**
 	 * Send message locally to listeners
+	 *
+	 * Reaches the exact listeners of the channel and the clients listening to a matching pattern.
 	 */
 	private sendLocal(name: string, msg: EvMessage) {
-		const listeners = this.#listeners.get(name)
+		const listeners = this.#patterns.match(name)
+		const exact = this.#listeners.get(name)
+
+		exact?.forEach((id) => listeners.add(id))
+
+		if (listeners.size === 0) return msg
 
-		if (!listeners) return msg
+		const start = performance.now()
+		let recipients = 0
 
 		for (const id of listeners) {
 			const client = this.#clients.get(id)
 
-			if (!client) {
-				continue
+			if (client) {
+				this.#deliver(id, client, name, msg, () => (recipients += 1))
 			}
-
-			client.message({
-				...msg,
-				data:
-					typeof msg.data === 'string'
-						? { ch: name, data: msg }
-						: { ch: name, ...msg.data },
-			})
 		}
 
+		this.#events.emit('deliver', {
+			channel: name,
+			recipients,
+			duration: performance.now() - start,
+		})
+
 		return msg
 	}
 
+	/**
+	 * Writes a channel message to a local client.
+	 */
+	#deliver(
+		id: string,
+		client: EvClient,
+		name: string,
+		msg: EvMessage,
+		onDelivered?: () => void
+	) {
+		const deliver = () => {
+			client.stream.message(this.#envelope(name, msg))
+			this.#replaying.get(id)?.delivered.add(msg.id)
+			this.#metrics.delivered += 1
+			onDelivered?.()
+		}
+
+		// Pattern listeners were authorized for the pattern, the concrete channel is checked once per connection
+		if (client.authorize && !this.#listeners.get(name)?.has(id)) {
+			const result = this.#authorizeChannel(client, name)
+
+			if (result instanceof Promise) {
+				result.then(({ allow }) => {
+					if (allow && this.#clients.get(id) === client) deliver()
+				})
+			} else if (result.allow) {
+				deliver()
+			}
+
+			return
+		}
+
+		deliver()
+	}
+
+	/**
+	 * Sends a channel message to a single local client, e.g. the current value of a state
+	 * when the client starts listening. The message is neither recorded nor published.
+	 *
+	 * Returns `false` when the client isn't connected to this instance.
+	 */
+	deliver(id: string, name: string, msg: EvMessage) {
+		const client = this.#clients.get(id)
+
+		if (!client) return false
+
+		this.#deliver(id, client, name, msg)
+		return true
+	}
+
+	/**
+	 * Returns the local clients receiving the messages of a channel, listening to it or to a matching pattern.
+	 */
+	listeners(name: string): EvListenerInfo[] {
+		const ids = this.#patterns.match(name)
+
+		this.#listeners.get(name)?.forEach((id) => ids.add(id))
+
+		return [...ids].flatMap((id) => {
+			const client = this.#clients.get(id)
+
+			return client ? [{ id, identity: client.stream.identity }] : []
+		})
+	}
+
+	/**
+	 * Records a channel message in the history store.
+	 */
+	#record(name: string, msg: EvMessage) {
+		if (!this.#history) return
+
+		// Live delivery must not depend on the store, failures are only reported
+		this.#history.append(name, msg).catch((error) => this.#error(error))
+	}
+
 	/**
 	 * Sends message to channel (local + Redis)
+	 *
+	 * Messages without an `id` get a monotonic id so clients can resume with `Last-Event-ID`.
+	 * Data is checked against the matching `schemas` first, rejected messages throw `EvValidationError`.
+	 * Messages of throttled channels may be delayed or replaced by a later message, see {@link throttle}.
 	 */
-	send(name: string, msg: EvMessage) {
-		this.sendLocal(name, msg)
+	send<K extends keyof C & string>(name: K, msg: EvChannelMessage<C[K]>) {
+		let checked = msg as EvMessage
 
-		if (this.#pubSub) {
-			this.#pubSub.send({ type: 'send', data: { name, message: msg } })
+		if (this.#schemas) {
+			try {
+				checked = this.#schemas.validate(name, checked)
+			} catch (error) {
+				throw this.#error(error as Error)
+			}
 		}
+
+		const policy = this.#policy(name)
+
+		if (!policy) {
+			this.#dispatch(name, checked)
+			return
+		}
+
+		let throttle = this.#throttles.get(name)
+
+		if (!throttle) {
+			throttle = new EvThrottle(
+				policy,
+				(message) => this.#dispatch(name, message),
+				() => this.#throttles.delete(name)
+			)
+			this.#throttles.set(name, throttle)
+		}
+
+		throttle.push(
+			policy.key?.(checked) ?? (checked.event || 'message'),
+			checked
+		)
+	}
+
+	/**
+	 * Sets the throttling policy of a channel, or of every channel matching a pattern.
+	 * Passing `false` removes it. Exact channel policies take precedence over patterns.
+	 *
+	 * Messages are coalesced per event name (or `key`), only the latest one of a window is sent.
+	 * Pending messages of the affected channels are sent at once when the policy changes.
+	 */
+	throttle(channel: EvChannelName<C>, opts: EvThrottleOptions | false) {
+		if (opts) {
+			this.#policies.set(channel, opts)
+		} else {
+			this.#policies.delete(channel)
+		}
+
+		for (const [name, throttle] of this.#throttles) {
+			if (name === channel || matchPattern(channel, name)) throttle.flush()
+		}
+	}
+
+	/**
+	 * Returns the throttling policy applying to a channel.
+	 */
+	#policy(name: string) {
+		if (this.#policies.size === 0) return
+
+		const exact = this.#policies.get(name)
+		if (exact) return exact
+
+		for (const [pattern, policy] of this.#policies) {
+			if (isPattern(pattern) && matchPattern(pattern, name)) return policy
+		}
+	}
+
+	/**
+	 * Delivers a channel message locally and publishes it to the other instances.
+	 */
+	#dispatch(name: string, msg: EvMessage) {
+		const message = msg.id ? msg : { ...msg, id: eventId() }
+
+		this.#metrics.sent += 1
+		this.#events.emit('send', { channel: name, message })
+		this.#record(name, message)
+		this.sendLocal(name, message)
+
+		const payload = { type: 'send', data: { name, message } }
+
+		if (!this.#router) {
+			this.#publish(payload)
+			return
+		}
+
+		// Only instances with listeners receive the message
+		const { channel, nodes } = this.#router.targets(name)
+
+		if (channel) {
+			this.#publish(payload, channelSubject(name))
+		}
+
+		nodes.forEach((node) => this.#publish(payload, nodeSubject(node)))
 	}
 
 	/**
 	 * Subscribe client to channel
+	 *
+	 * Names containing `*` or `**` segments are pattern subscriptions. Listeners of matching
+	 * patterns count toward the `maxListeners` limit of an exact channel.
 	 */
 	#listen(name: string, id: string) {
+		if (isPattern(name)) {
+			const size = this.#patterns.size(name)
+
+			if (size >= this.#maxListeners) {
+				throw this.#error(new EvMaxListenerError(size, name))
+			}
+
+			this.#patterns.add(name, id)
+
+			if (size === 0) {
+				this.#router?.add('patterns', name)
+			}
+			return
+		}
+
 		let listeners = this.#listeners.get(name)
+		const size = (listeners?.size || 0) + this.#patterns.match(name).size
+
+		if (size >= this.#maxListeners) {
+			throw this.#error(new EvMaxListenerError(size, name))
+		}
 
 		if (!listeners) {
 			listeners = new Set()
 			this.#listeners.set(name, listeners)
-		}
-
-		if (listeners.size >= this.#maxListeners) {
-			throw new EvMaxListenerError(listeners.size, name)
+			this.#router?.add('channels', name)
 		}
 
 		listeners.add(id)
@@ -186,6 +1079,15 @@ export class EvStreamManager {
 	 * Unsubscribe client from channel
 	 */
 	#unlisten(name: string, id: string) {
+		if (isPattern(name)) {
+			this.#patterns.delete(name, id)
+
+			if (this.#patterns.size(name) === 0) {
+				this.#router?.remove('patterns', name)
+			}
+			return
+		}
+
 		const listeners = this.#listeners.get(name)
 
 		if (!listeners) return
@@ -194,6 +1096,7 @@ export class EvStreamManager {
 
 		if (listeners.size === 0) {
 			this.#listeners.delete(name)
+			this.#router?.remove('channels', name)
 		}
 	}
 
@@ -203,6 +1106,11 @@ export class EvStreamManager {
 	#onMessage(msg: Record<string, any>) {
 		const type = msg?.type
 
+		this.#metrics.pubSubIn += 1
+		this.#events.emit('pubsub-in', msg)
+
+		if (this.#router?.handle(msg)) return
+
 		switch (type) {
 			case 'send':
 				const name = msg?.data?.name
@@ -210,6 +1118,10 @@ export class EvStreamManager {
 
 				if (!name || !message) return
 
+				if (!this.#history?.shared) {
+					this.#record(name, message)
+				}
+
 				this.sendLocal(name, message)
 				break
 
@@ -219,6 +1131,44 @@ export class EvStreamManager {
 
 				this.toLocal(id, data)
 				break
+
+			case 'resolve': {
+				if (typeof msg?.data?.cid === 'string') {
+					this.#requests.get(msg.data.cid)?.resolve(msg.data.payload)
+				}
+				break
+			}
+
+			case 'user': {
+				if (typeof msg?.data?.id === 'string' && msg?.data?.message) {
+					this.toUserLocal(msg.data.id, msg.data.message)
+				}
+				break
+			}
+
+			case 'subscribe': {
+				const client = this.#clients.get(msg?.data?.id)
+
+				if (client && typeof msg?.data?.name === 'string') {
+					try {
+						const result = client.listen(msg.data.name)
+
+						if (result instanceof Promise) result.catch(() => {})
+					} catch {
+						// Listener limit reached on this instance, the error is already reported
+					}
+				}
+				break
+			}
+
+			case 'unsubscribe': {
+				const client = this.#clients.get(msg?.data?.id)
+
+				if (client && typeof msg?.data?.name === 'string') {
+					client.unlisten(msg.data.name)
+				}
+				break
+			}
 		}
 	}
 }
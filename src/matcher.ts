@@ -0,0 +1,180 @@
+/**
+ * Separator between the segments of a channel name.
+ */
+export const SEGMENT_SEPARATOR = ':'
+
+/**
+ * Checks whether a channel name contains a wildcard segment (`*` or `**`).
+ *
+ * @param name - Channel name or pattern
+ */
+export function isPattern(name: string) {
+	return name
+		.split(SEGMENT_SEPARATOR)
+		.some((segment) => segment === '*' || segment === '**')
+}
+
+interface EvPatternNode {
+	children: Map<string, EvPatternNode>
+	ids: Set<string>
+}
+
+function createNode(): EvPatternNode {
+	return { children: new Map(), ids: new Set() }
+}
+
+/**
+ * Trie of channel patterns.
+ *
+ * Patterns are split into `:` separated segments where :
+ * - `*` matches exactly one segment (`org:*` matches `org:42`)
+ * - `**` matches zero or more segments (`org:42:**` matches `org:42`, `org:42:project` and `org:42:project:7`)
+ *
+ * Every pattern holds the set of client ids subscribed to it.
+ */
+export class EvPatternTrie {
+	#root: EvPatternNode
+	#patterns: Map<string, EvPatternNode>
+
+	constructor() {
+		this.#root = createNode()
+		this.#patterns = new Map()
+	}
+
+	/**
+	 * Subscribes an id to a pattern.
+	 */
+	add(pattern: string, id: string) {
+		let node = this.#patterns.get(pattern)
+
+		if (!node) {
+			node = this.#root
+
+			for (const segment of pattern.split(SEGMENT_SEPARATOR)) {
+				let child = node.children.get(segment)
+
+				if (!child) {
+					child = createNode()
+					node.children.set(segment, child)
+				}
+
+				node = child
+			}
+
+			this.#patterns.set(pattern, node)
+		}
+
+		node.ids.add(id)
+	}
+
+	/**
+	 * Unsubscribes an id from a pattern. Empty branches are removed.
+	 */
+	delete(pattern: string, id: string) {
+		const node = this.#patterns.get(pattern)
+
+		if (!node) return
+
+		node.ids.delete(id)
+
+		if (node.ids.size > 0) return
+
+		this.#patterns.delete(pattern)
+		this.#prune(this.#root, pattern.split(SEGMENT_SEPARATOR), 0)
+	}
+
+	/**
+	 * Number of ids subscribed to a pattern.
+	 */
+	size(pattern: string) {
+		return this.#patterns.get(pattern)?.ids.size || 0
+	}
+
+	/**
+	 * Patterns with at least one subscriber.
+	 */
+	patterns() {
+		return [...this.#patterns.keys()]
+	}
+
+	/**
+	 * Returns the ids subscribed to any pattern matching the channel.
+	 *
+	 * @param channel - Concrete channel name
+	 */
+	match(channel: string) {
+		const ids = new Set<string>()
+
+		if (this.#patterns.size > 0) {
+			this.#walk(this.#root, channel.split(SEGMENT_SEPARATOR), 0, ids)
+		}
+
+		return ids
+	}
+
+	#walk(
+		node: EvPatternNode,
+		segments: string[],
+		index: number,
+		ids: Set<string>
+	) {
+		if (index === segments.length) {
+			node.ids.forEach((id) => ids.add(id))
+		} else {
+			const exact = node.children.get(segments[index])
+			if (exact) this.#walk(exact, segments, index + 1, ids)
+
+			const single = node.children.get('*')
+			if (single) this.#walk(single, segments, index + 1, ids)
+		}
+
+		const multi = node.children.get('**')
+
+		if (multi) {
+			for (let i = index; i <= segments.length; i++) {
+				this.#walk(multi, segments, i, ids)
+			}
+		}
+	}
+
+	/**
+	 * Removes the nodes of a pattern which hold no ids and no children.
+	 */
+	#prune(node: EvPatternNode, segments: string[], index: number): boolean {
+		if (index < segments.length) {
+			const child = node.children.get(segments[index])
+
+			if (child && this.#prune(child, segments, index + 1)) {
+				node.children.delete(segments[index])
+			}
+		}
+
+		return node.ids.size === 0 && node.children.size === 0
+	}
+}
+
+// Max number of patterns kept compiled by `matchPattern`.
+const MAX_COMPILED = 1000
+
+const compiled = new Map<string, EvPatternTrie>()
+
+/**
+ * Checks whether a single pattern matches a channel.
+ *
+ * @param pattern - Channel pattern (or exact name)
+ * @param channel - Concrete channel name
+ */
+export function matchPattern(pattern: string, channel: string) {
+	let trie = compiled.get(pattern)
+
+	if (!trie) {
+		// Patterns may come from clients, the cache is bounded
+		if (compiled.size >= MAX_COMPILED) compiled.clear()
+
+		trie = new EvPatternTrie()
+		trie.add(pattern, pattern)
+		compiled.set(pattern, trie)
+	}
+
+	return trie.match(channel).size > 0
+}
@@ -1,19 +1,58 @@
-import { EvMessage } from './types.js'
+import { EvMessage, EvSerializer } from './types.js'
 import { safeJsonParse } from './utils.js'
 
+/**
+ * Splits a value into lines. Every line break form (`\r\n`, `\r`, `\n`) is supported.
+ */
+function lines(value: string) {
+	return value.split(/\r\n|\r|\n/)
+}
+
+/**
+ * Removes line breaks from single line fields.
+ */
+function field(value: string) {
+	return value.replace(/[\r\n]/g, '')
+}
+
 /**
  *
  * This function convert the data to event stream compatible format.
  *
+ * Multi-line data is split into several `data:` lines as required by the SSE specification.
+ *
  * @param msg Message which you want to send to the client.
+ * @param serializer Serializer used to encode `msg.data`. Default is JSON.
  */
-export function message(msg: EvMessage) {
-    const event = `event:${msg.event || 'message'}\n`
-    const data = `data:${safeJsonParse(msg.data)}\n`
+export function message(msg: EvMessage, serializer?: EvSerializer) {
+	let frame = ''
+
+	if (msg.comment !== undefined) {
+		frame += lines(msg.comment)
+			.map((line) => `:${line}\n`)
+			.join('')
+	}
+
+	if (msg.id) {
+		frame += `id:${field(msg.id)}\n`
+	}
+
+	if (msg.retry !== undefined) {
+		frame += `retry:${Math.max(0, Math.floor(msg.retry))}\n`
+	}
+
+	if (msg.data === undefined && !msg.event) {
+		return `${frame}\n`
+	}
+
+	const data = serializer
+		? serializer.serialize(msg.data)
+		: safeJsonParse(msg.data)
 
-    if (data === '') {
-        return `${msg.id ? `id:${msg.id}\n` : ''}${event}\n`
-    }
+	frame += `event:${field(msg.event || 'message')}\n`
+	frame += lines(data)
+		.map((line) => `data:${line}\n`)
+		.join('')
 
-    return `${msg.id ? `id:${msg.id}\n` : ''}${event}${data}\n`
+	return `${frame}\n`
 }
@@ -0,0 +1,234 @@
+/**
+ * Minimal MessagePack encoder / decoder used by `msgpackSerializer`.
+ *
+ * Supports nil, booleans, numbers, strings, binary data, arrays and maps.
+ * `bigint` values are encoded as 64 bit integers, `Date` values as ISO strings
+ * and `undefined` object properties are skipped (like JSON).
+ */
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+class Writer {
+	#bytes: number[] = []
+
+	byte(value: number) {
+		this.#bytes.push(value & 0xff)
+	}
+
+	uint(value: number, size: number) {
+		for (let i = size - 1; i >= 0; i--) {
+			this.byte(Math.floor(value / 2 ** (8 * i)))
+		}
+	}
+
+	bytes(value: ArrayLike<number>) {
+		for (let i = 0; i < value.length; i++) {
+			this.#bytes.push(value[i])
+		}
+	}
+
+	view(size: number, write: (view: DataView) => void) {
+		const view = new DataView(new ArrayBuffer(size))
+		write(view)
+		this.bytes(new Uint8Array(view.buffer))
+	}
+
+	result() {
+		return new Uint8Array(this.#bytes)
+	}
+}
+
+function encodeLength(
+	w: Writer,
+	length: number,
+	fix: number,
+	fixMax: number,
+	types: number[]
+) {
+	if (fix !== -1 && length <= fixMax) {
+		w.byte(fix | length)
+	} else if (types[0] !== -1 && length <= 0xff) {
+		w.byte(types[0])
+		w.uint(length, 1)
+	} else if (length <= 0xffff) {
+		w.byte(types[1])
+		w.uint(length, 2)
+	} else {
+		w.byte(types[2])
+		w.uint(length, 4)
+	}
+}
+
+function encodeNumber(w: Writer, value: number) {
+	if (!Number.isInteger(value) || value < -0x80000000 || value > 0xffffffff) {
+		w.byte(0xcb)
+		w.view(8, (view) => view.setFloat64(0, value))
+	} else if (value >= 0) {
+		if (value < 0x80) {
+			w.byte(value)
+		} else if (value <= 0xff) {
+			w.byte(0xcc)
+			w.uint(value, 1)
+		} else if (value <= 0xffff) {
+			w.byte(0xcd)
+			w.uint(value, 2)
+		} else {
+			w.byte(0xce)
+			w.uint(value, 4)
+		}
+	} else if (value >= -32) {
+		w.byte(value)
+	} else {
+		w.byte(0xd2)
+		w.view(4, (view) => view.setInt32(0, value))
+	}
+}
+
+function encodeValue(w: Writer, value: any) {
+	if (value === null || value === undefined) {
+		w.byte(0xc0)
+	} else if (typeof value === 'boolean') {
+		w.byte(value ? 0xc3 : 0xc2)
+	} else if (typeof value === 'bigint') {
+		w.byte(0xd3)
+		w.view(8, (view) => view.setBigInt64(0, value))
+	} else if (typeof value === 'number') {
+		encodeNumber(w, value)
+	} else if (typeof value === 'string') {
+		const bytes = encoder.encode(value)
+		encodeLength(w, bytes.length, 0xa0, 31, [0xd9, 0xda, 0xdb])
+		w.bytes(bytes)
+	} else if (value instanceof Uint8Array) {
+		encodeLength(w, value.length, -1, -1, [0xc4, 0xc5, 0xc6])
+		w.bytes(value)
+	} else if (value instanceof Date) {
+		encodeValue(w, value.toISOString())
+	} else if (Array.isArray(value)) {
+		encodeLength(w, value.length, 0x90, 15, [-1, 0xdc, 0xdd])
+		value.forEach((item) => encodeValue(w, item))
+	} else if (typeof value === 'object') {
+		const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+		encodeLength(w, entries.length, 0x80, 15, [-1, 0xde, 0xdf])
+		entries.forEach(([key, item]) => {
+			encodeValue(w, key)
+			encodeValue(w, item)
+		})
+	} else {
+		w.byte(0xc0)
+	}
+}
+
+/**
+ * Encodes a value to MessagePack.
+ */
+export function encode(value: unknown) {
+	const w = new Writer()
+	encodeValue(w, value)
+	return w.result()
+}
+
+/**
+ * Decodes a MessagePack buffer.
+ */
+export function decode(bytes: Uint8Array): unknown {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+	let offset = 0
+
+	const uint = (size: number) => {
+		let value = 0
+		for (let i = 0; i < size; i++) value = value * 256 + bytes[offset++]
+		return value
+	}
+	const str = (length: number) => {
+		const value = decoder.decode(bytes.subarray(offset, offset + length))
+		offset += length
+		return value
+	}
+	const bin = (length: number) => {
+		const value = bytes.slice(offset, offset + length)
+		offset += length
+		return value
+	}
+	const array = (length: number) => {
+		const value: unknown[] = []
+		for (let i = 0; i < length; i++) value.push(read())
+		return value
+	}
+	const map = (length: number) => {
+		const value: Record<string, unknown> = {}
+		for (let i = 0; i < length; i++) {
+			const key = String(read())
+			value[key] = read()
+		}
+		return value
+	}
+	const fixed = <T>(size: number, get: (offset: number) => T) => {
+		const value = get(offset)
+		offset += size
+		return value
+	}
+
+	const read = (): unknown => {
+		const type = bytes[offset++]
+
+		if (type < 0x80) return type
+		if (type < 0x90) return map(type & 0x0f)
+		if (type < 0xa0) return array(type & 0x0f)
+		if (type < 0xc0) return str(type & 0x1f)
+		if (type >= 0xe0) return type - 0x100
+
+		switch (type) {
+			case 0xc0:
+				return null
+			case 0xc2:
+				return false
+			case 0xc3:
+				return true
+			case 0xc4:
+				return bin(uint(1))
+			case 0xc5:
+				return bin(uint(2))
+			case 0xc6:
+				return bin(uint(4))
+			case 0xca:
+				return fixed(4, (o) => view.getFloat32(o))
+			case 0xcb:
+				return fixed(8, (o) => view.getFloat64(o))
+			case 0xcc:
+				return uint(1)
+			case 0xcd:
+				return uint(2)
+			case 0xce:
+				return uint(4)
+			case 0xcf:
+				return fixed(8, (o) => view.getBigUint64(o))
+			case 0xd0:
+				return fixed(1, (o) => view.getInt8(o))
+			case 0xd1:
+				return fixed(2, (o) => view.getInt16(o))
+			case 0xd2:
+				return fixed(4, (o) => view.getInt32(o))
+			case 0xd3:
+				return fixed(8, (o) => view.getBigInt64(o))
+			case 0xd9:
+				return str(uint(1))
+			case 0xda:
+				return str(uint(2))
+			case 0xdb:
+				return str(uint(4))
+			case 0xdc:
+				return array(uint(2))
+			case 0xdd:
+				return array(uint(4))
+			case 0xde:
+				return map(uint(2))
+			case 0xdf:
+				return map(uint(4))
+		}
+
+		throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}`)
+	}
+
+	return read()
+}
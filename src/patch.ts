@@ -0,0 +1,355 @@
+import type { EvPatchOperation, EvStatePath } from './types.js'
+
+function isObject(value: unknown): value is Record<string, any> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Objects which are walked, Dates and class instances are handled as single values
+function isPlainObject(value: unknown): value is Record<string, any> {
+	if (!isObject(value)) return false
+
+	const proto = Object.getPrototypeOf(value)
+	return proto === Object.prototype || proto === null
+}
+
+function escape(token: string | number) {
+	return String(token).replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function unescape(token: string) {
+	return token.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+function equal(a: unknown, b: unknown) {
+	return a === b || diff(a, b).length === 0
+}
+
+/**
+ * Splits a state path into its segments. Dot-separated strings are split on `.`,
+ * arrays are used as-is for keys containing dots.
+ */
+export function pathSegments(path: EvStatePath) {
+	return typeof path === 'string' ? path.split('.') : [...path]
+}
+
+/**
+ * Converts path segments to a JSON Pointer (RFC 6901).
+ */
+export function toPointer(segments: ReadonlyArray<string | number>) {
+	return segments.map((token) => '/' + escape(token)).join('')
+}
+
+function fromPointer(pointer: string) {
+	if (pointer === '') return []
+
+	if (pointer[0] !== '/') {
+		throw new TypeError(`Invalid JSON Pointer "${pointer}"`)
+	}
+
+	return pointer.slice(1).split('/').map(unescape)
+}
+
+/**
+ * Returns the value at a path, `undefined` when it doesn't exist.
+ */
+export function getIn(
+	value: unknown,
+	segments: ReadonlyArray<string | number>
+) {
+	let current: any = value
+
+	for (const token of segments) {
+		if (current === null || typeof current !== 'object') return undefined
+		current = current[token as any]
+	}
+
+	return current
+}
+
+/**
+ * Returns a copy of `value` where the value at the path is replaced.
+ * Only the containers along the path are copied, the rest is shared.
+ * Missing containers are created as objects.
+ */
+export function setIn<T>(
+	value: T,
+	segments: ReadonlyArray<string | number>,
+	next: unknown
+): T {
+	if (segments.length === 0) return next as T
+
+	const [token, ...rest] = segments
+	const container: any = Array.isArray(value)
+		? [...value]
+		: isObject(value)
+			? { ...value }
+			: {}
+
+	container[token as any] = setIn(container[token as any], rest, next)
+	return container
+}
+
+/**
+ * Computes the RFC 6902 JSON Patch turning `prev` into `next`.
+ *
+ * Identical references are skipped without being walked, so values updated with
+ * {@link setIn} are compared in time proportional to the changed path. Dates and
+ * class instances aren't walked, they're replaced unless they're the same value.
+ */
+export function diff(
+	prev: unknown,
+	next: unknown,
+	path = ''
+): EvPatchOperation[] {
+	if (prev === next) return []
+
+	if (Array.isArray(prev) && Array.isArray(next)) {
+		const ops: EvPatchOperation[] = []
+		const common = Math.min(prev.length, next.length)
+
+		for (let i = 0; i < common; i++) {
+			ops.push(...diff(prev[i], next[i], `${path}/${i}`))
+		}
+
+		for (let i = common; i < next.length; i++) {
+			ops.push({ op: 'add', path: `${path}/${i}`, value: next[i] })
+		}
+
+		// Removed from the end so the indexes of the remaining items don't move
+		for (let i = prev.length - 1; i >= common; i--) {
+			ops.push({ op: 'remove', path: `${path}/${i}` })
+		}
+
+		return ops
+	}
+
+	if (isPlainObject(prev) && isPlainObject(next)) {
+		const ops: EvPatchOperation[] = []
+
+		// Undefined values aren't serialized, they're added by the second loop
+		for (const key of Object.keys(prev)) {
+			if (prev[key] === undefined) continue
+
+			const child = `${path}/${escape(key)}`
+
+			if (next[key] === undefined) {
+				ops.push({ op: 'remove', path: child })
+			} else {
+				ops.push(...diff(prev[key], next[key], child))
+			}
+		}
+
+		for (const key of Object.keys(next)) {
+			if (
+				(!(key in prev) || prev[key] === undefined) &&
+				next[key] !== undefined
+			) {
+				ops.push({
+					op: 'add',
+					path: `${path}/${escape(key)}`,
+					value: next[key],
+				})
+			}
+		}
+
+		return ops
+	}
+
+	if (Number.isNaN(prev) && Number.isNaN(next)) return []
+	if (
+		prev instanceof Date &&
+		next instanceof Date &&
+		Object.is(prev.getTime(), next.getTime())
+	) {
+		return []
+	}
+
+	return [{ op: 'replace', path, value: next }]
+}
+
+function add(container: any, token: string, value: unknown) {
+	if (Array.isArray(container)) {
+		const index = token === '-' ? container.length : Number(token)
+
+		if (!(index >= 0 && index <= container.length)) {
+			throw new RangeError(`Invalid array index "${token}"`)
+		}
+
+		container.splice(index, 0, value)
+		return
+	}
+
+	container[token] = value
+}
+
+function remove(container: any, token: string) {
+	if (Array.isArray(container)) {
+		const index = Number(token)
+
+		if (!(index >= 0 && index < container.length)) {
+			throw new RangeError(`Invalid array index "${token}"`)
+		}
+
+		return container.splice(index, 1)[0]
+	}
+
+	if (!(token in container)) {
+		throw new RangeError(`Missing member "${token}"`)
+	}
+
+	const value = container[token]
+	delete container[token]
+	return value
+}
+
+/**
+ * Copies the containers along a path and returns the new root with the parent of the last token.
+ */
+function parentOf(root: unknown, tokens: string[]) {
+	const copy = (value: any) => {
+		if (Array.isArray(value)) return [...value]
+		if (isObject(value)) return { ...value }
+		throw new RangeError(`Missing container at "${toPointer(tokens)}"`)
+	}
+
+	const copied = copy(root)
+	let parent = copied
+
+	for (const token of tokens.slice(0, -1)) {
+		parent[token] = copy(parent[token])
+		parent = parent[token]
+	}
+
+	return { root: copied, parent }
+}
+
+/**
+ * Applies an RFC 6902 JSON Patch. The input is not modified, unchanged values are shared.
+ *
+ * Throws when an operation can't be applied, e.g. when the patch doesn't match the value.
+ */
+export function applyPatch<T>(
+	value: T,
+	ops: ReadonlyArray<EvPatchOperation>
+): T {
+	let doc: any = value
+
+	for (const op of ops) {
+		const tokens = fromPointer(op.path)
+
+		if (op.op === 'test') {
+			if (!equal(getIn(doc, tokens), op.value)) {
+				throw new RangeError(`Test failed at "${op.path}"`)
+			}
+			continue
+		}
+
+		let moved: unknown = op.value
+
+		if (op.op === 'move' || op.op === 'copy') {
+			const from = fromPointer(op.from || '')
+			moved = getIn(doc, from)
+
+			if (op.op === 'move') {
+				const result = parentOf(doc, from)
+				remove(result.parent, from[from.length - 1])
+				doc = result.root
+			}
+		}
+
+		if (tokens.length === 0) {
+			if (op.op === 'remove') throw new RangeError('Cannot remove the root')
+			doc = moved
+			continue
+		}
+
+		const { root, parent } = parentOf(doc, tokens)
+		const last = tokens[tokens.length - 1]
+
+		switch (op.op) {
+			case 'remove':
+				remove(parent, last)
+				break
+			case 'replace':
+				if (Array.isArray(parent)) {
+					remove(parent, last)
+					add(parent, last, moved)
+				} else if (last in parent) {
+					// Members keep their position
+					parent[last] = moved
+				} else {
+					throw new RangeError(`Missing member "${last}"`)
+				}
+				break
+			default:
+				add(parent, last, moved)
+		}
+
+		doc = root
+	}
+
+	return doc
+}
+
+/**
+ * Computes the RFC 7396 JSON Merge Patch turning `prev` into `next`.
+ *
+ * Returns `undefined` when the change can't be expressed as a merge patch : when either
+ * value isn't an object or when `next` contains `null`, which a merge patch can't set.
+ */
+export function mergeDiff(
+	prev: unknown,
+	next: unknown
+): Record<string, unknown> | undefined {
+	if (!isPlainObject(prev) || !isPlainObject(next)) return
+
+	const patch: Record<string, unknown> = {}
+
+	for (const key of Object.keys(prev)) {
+		if (!(key in next) || next[key] === undefined) patch[key] = null
+	}
+
+	for (const key of Object.keys(next)) {
+		const value = next[key]
+
+		if (value === undefined || prev[key] === value) continue
+
+		if (isPlainObject(prev[key]) && isPlainObject(value)) {
+			const nested = mergeDiff(prev[key], value)
+
+			if (!nested) return
+			if (Object.keys(nested).length > 0) patch[key] = nested
+			continue
+		}
+
+		if (containsNull(value)) return
+		if (!equal(prev[key], value)) patch[key] = value
+	}
+
+	return patch
+}
+
+function containsNull(value: unknown): boolean {
+	if (value === null) return true
+	if (Array.isArray(value)) return false
+	return isObject(value) && Object.values(value).some(containsNull)
+}
+
+/**
+ * Applies an RFC 7396 JSON Merge Patch. The input is not modified.
+ */
+export function applyMergePatch<T>(value: T, patch: unknown): T {
+	if (!isObject(patch)) return patch as T
+
+	const target: Record<string, any> = isObject(value) ? { ...value } : {}
+
+	for (const [key, change] of Object.entries(patch)) {
+		if (change === null) {
+			delete target[key]
+		} else {
+			target[key] = applyMergePatch(target[key], change)
+		}
+	}
+
+	return target as T
+}
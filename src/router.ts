@@ -0,0 +1,300 @@
+import { matchPattern } from './matcher.js'
+
+import type { EvPubSubTransport, EvRoutingOptions } from './types.js'
+
+type EvRouteKind = 'channels' | 'patterns' | 'clients'
+
+/**
+ * Channels, patterns and client ids of an instance.
+ */
+type EvRoutes = Record<EvRouteKind, string[]>
+
+/**
+ * Routes known for a remote instance.
+ */
+interface EvNode {
+	channels: Set<string>
+	patterns: Set<string>
+	clients: Set<string>
+	seen: number
+}
+
+interface EvRouterOptions extends EvRoutingOptions {
+	// Id of the local instance
+	node: string
+	transport: EvPubSubTransport
+	// Publishes a message, to `subject` when set or to every instance otherwise
+	publish: (msg: Record<string, any>, subject?: string) => void
+	// Returns the routes of the local instance
+	snapshot: () => EvRoutes
+	onError: (error: Error) => void
+}
+
+/**
+ * Subject of the instances listening to a channel.
+ */
+export function channelSubject(name: string) {
+	return `ch:${name}`
+}
+
+/**
+ * Subject of a single instance.
+ */
+export function nodeSubject(node: string) {
+	return `node:${node}`
+}
+
+/**
+ * Whether the transport can publish to subjects.
+ */
+export function supportsRouting(transport?: EvPubSubTransport) {
+	return (
+		typeof transport?.publishTo === 'function' &&
+		typeof transport?.subscribeTo === 'function' &&
+		typeof transport?.unsubscribeFrom === 'function'
+	)
+}
+
+const emptyRoutes = (): EvRoutes => ({
+	channels: [],
+	patterns: [],
+	clients: [],
+})
+
+/**
+ * Routing registry of the instances sharing a Pub/Sub transport.
+ *
+ * - Every instance subscribes to its own subject and to the subject of every channel it has listeners for
+ * - Changes of the local channels, patterns and clients are advertised to every instance, batched per tick
+ * - A full advertisement is sent every `interval`, instances silent for 3 intervals are forgotten
+ * - A starting instance requests the routes of the others
+ */
+export class EvRouter {
+	#node: string
+	#transport: EvPubSubTransport
+	#publish: EvRouterOptions['publish']
+	#snapshot: () => EvRoutes
+	#onError: (error: Error) => void
+	#interval: number
+	#nodes = new Map<string, EvNode>()
+	#pending?: { add: EvRoutes; remove: EvRoutes }
+	#timer: ReturnType<typeof setInterval>
+
+	constructor(opts: EvRouterOptions) {
+		this.#node = opts.node
+		this.#transport = opts.transport
+		this.#publish = opts.publish
+		this.#snapshot = opts.snapshot
+		this.#onError = opts.onError
+		this.#interval = opts.interval || 30000
+
+		this.#timer = setInterval(() => this.tick(), this.#interval)
+
+		// The advertisements alone must not keep the process running
+		;(this.#timer as { unref?: () => void }).unref?.()
+
+		this.#transport.subscribeTo!(nodeSubject(this.#node))
+			.then(() => {
+				this.#publish({ type: 'sync', data: { node: this.#node } })
+				this.advertise()
+			})
+			.catch(this.#onError)
+	}
+
+	/**
+	 * Id of the local instance.
+	 */
+	get node() {
+		return this.#node
+	}
+
+	/**
+	 * Advertises a new local channel, pattern or client.
+	 */
+	add(kind: EvRouteKind, name: string) {
+		if (kind === 'channels') {
+			this.#transport.subscribeTo!(channelSubject(name)).catch(this.#onError)
+		}
+
+		this.#queue('add', kind, name)
+	}
+
+	/**
+	 * Advertises a removed local channel, pattern or client.
+	 */
+	remove(kind: EvRouteKind, name: string) {
+		if (kind === 'channels') {
+			this.#transport.unsubscribeFrom!(channelSubject(name)).catch(
+				this.#onError
+			)
+		}
+
+		this.#queue('remove', kind, name)
+	}
+
+	#queue(op: 'add' | 'remove', kind: EvRouteKind, name: string) {
+		if (!this.#pending) {
+			this.#pending = { add: emptyRoutes(), remove: emptyRoutes() }
+			queueMicrotask(() => this.flush())
+		}
+
+		const opposite = this.#pending[op === 'add' ? 'remove' : 'add'][kind]
+		const index = opposite.indexOf(name)
+
+		// Added and removed within the same tick, the other instances don't need to know
+		if (index !== -1) {
+			opposite.splice(index, 1)
+			return
+		}
+
+		this.#pending[op][kind].push(name)
+	}
+
+	/**
+	 * Publishes the changes queued during the tick.
+	 */
+	private flush() {
+		const pending = this.#pending
+		this.#pending = undefined
+
+		if (!pending) return
+
+		const changed = (['add', 'remove'] as const).some((op) =>
+			Object.values(pending[op]).some((names) => names.length > 0)
+		)
+
+		if (changed) {
+			this.#publish({ type: 'route', data: { node: this.#node, ...pending } })
+		}
+	}
+
+	/**
+	 * Publishes every local route, to a single instance when `subject` is set.
+	 */
+	private advertise(subject?: string) {
+		this.#publish(
+			{
+				type: 'route',
+				data: { node: this.#node, full: true, add: this.#snapshot() },
+			},
+			subject
+		)
+	}
+
+	/**
+	 * Sends the full advertisement and forgets silent instances.
+	 */
+	private tick() {
+		this.advertise()
+
+		const expired = Date.now() - this.#interval * 3
+
+		this.#nodes.forEach((node, id) => {
+			if (node.seen < expired) this.#nodes.delete(id)
+		})
+	}
+
+	/**
+	 * Handles a routing message. Returns `false` for other messages.
+	 */
+	handle(msg: Record<string, any>) {
+		const node = msg?.data?.node
+
+		if (typeof node !== 'string' || node === this.#node) {
+			return ['route', 'sync', 'leave'].includes(msg?.type)
+		}
+
+		switch (msg.type) {
+			case 'route': {
+				let entry = this.#nodes.get(node)
+
+				if (!entry || msg.data.full) {
+					// Partial update of an unknown instance, its full routes are requested
+					if (!entry && !msg.data.full) {
+						this.#publish(
+							{ type: 'sync', data: { node: this.#node } },
+							nodeSubject(node)
+						)
+					}
+
+					entry = {
+						channels: new Set(),
+						patterns: new Set(),
+						clients: new Set(),
+						seen: 0,
+					}
+					this.#nodes.set(node, entry)
+				}
+
+				const routes = entry
+
+				for (const kind of ['channels', 'patterns', 'clients'] as const) {
+					msg.data.add?.[kind]?.forEach((name: string) =>
+						routes[kind].add(name)
+					)
+					msg.data.remove?.[kind]?.forEach((name: string) =>
+						routes[kind].delete(name)
+					)
+				}
+
+				routes.seen = Date.now()
+				return true
+			}
+
+			case 'sync':
+				this.advertise(nodeSubject(node))
+				return true
+
+			case 'leave':
+				this.#nodes.delete(node)
+				return true
+		}
+
+		return false
+	}
+
+	/**
+	 * Returns the instance owning a client, if known.
+	 */
+	owner(id: string) {
+		for (const [node, entry] of this.#nodes) {
+			if (entry.clients.has(id)) return node
+		}
+	}
+
+	/**
+	 * Returns where a channel message must be published.
+	 *
+	 * - `channel` : an instance has exact listeners, the channel subject must be used
+	 * - `nodes` : instances only listening through a pattern
+	 */
+	targets(name: string) {
+		let channel = false
+		const nodes: string[] = []
+
+		this.#nodes.forEach((entry, node) => {
+			if (entry.channels.has(name)) {
+				channel = true
+				return
+			}
+
+			for (const pattern of entry.patterns) {
+				if (matchPattern(pattern, name)) {
+					nodes.push(node)
+					return
+				}
+			}
+		})
+
+		return { channel, nodes }
+	}
+
+	/**
+	 * Stops the advertisements and tells the other instances to forget this one.
+	 */
+	close() {
+		clearInterval(this.#timer)
+		this.#nodes.clear()
+		this.#publish({ type: 'leave', data: { node: this.#node } })
+	}
+}
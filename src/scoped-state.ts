@@ -0,0 +1,131 @@
+import { EvState } from './state.js'
+import { isPattern, matchPattern } from './matcher.js'
+
+import type { EvStreamManager } from './manager.js'
+import type { EvListenerInfo, EvScopedStateOptions } from './types.js'
+
+type EvSetState<T> = (val: T) => T
+
+/**
+ * EvScopedState holds one {@link EvState} per scope, e.g. the cart of every user.
+ *
+ * The state of scope `x` is broadcast to the channel `<channel>:x`. It's created when a
+ * client starts listening to that channel and disposed of once no client receives the
+ * channel anymore, so values which must outlive their listeners need a `store`.
+ *
+ * Any client may listen to any scope : restrict them with the `authorize` hook of the manager.
+ */
+export class EvScopedState<T> {
+	#prefix: string
+	#manager: EvStreamManager<any>
+	#initialValue: (scope: string, client: EvListenerInfo) => T
+	#options: Omit<EvScopedStateOptions<T>, 'channel' | 'initialValue'>
+	#states = new Map<string, EvState<T>>()
+
+	constructor({ channel, initialValue, ...options }: EvScopedStateOptions<T>) {
+		this.#prefix = `${channel}:`
+		this.#manager = options.manager
+		this.#initialValue = initialValue
+		this.#options = options
+
+		this.onListen = this.onListen.bind(this)
+		this.onUnlisten = this.onUnlisten.bind(this)
+		this.#manager.on('listen', this.onListen)
+		this.#manager.on('unlisten', this.onUnlisten)
+	}
+
+	/**
+	 * Returns the channel of a scope.
+	 */
+	channel(scope: string) {
+		return this.#prefix + scope
+	}
+
+	/**
+	 * Returns the state of a scope, `undefined` when no client listens to it.
+	 */
+	get(scope: string) {
+		return this.#states.get(scope)
+	}
+
+	/**
+	 * Returns the scopes which have a state.
+	 */
+	scopes() {
+		return [...this.#states.keys()]
+	}
+
+	/**
+	 * Updates the state of a scope using a callback.
+	 * Returns `false` when the scope has no state, i.e. no client listens to it.
+	 */
+	set(scope: string, callback: EvSetState<T>) {
+		const state = this.#states.get(scope)
+
+		if (!state) return false
+
+		state.set(callback)
+		return true
+	}
+
+	/**
+	 * Disposes of the states of every scope and stops creating new ones.
+	 */
+	dispose() {
+		this.#manager.off('listen', this.onListen)
+		this.#manager.off('unlisten', this.onUnlisten)
+		this.#states.forEach((state) => state.dispose())
+		this.#states.clear()
+	}
+
+	/**
+	 * Creates the state of the scope a client started listening to.
+	 */
+	private onListen({
+		channel,
+		...client
+	}: EvListenerInfo & { channel: string }) {
+		if (!channel.startsWith(this.#prefix) || isPattern(channel)) return
+
+		const scope = channel.slice(this.#prefix.length)
+
+		if (this.#states.has(scope)) return
+
+		// The state sends its value to the clients already listening
+		this.#states.set(
+			scope,
+			new EvState({
+				...this.#options,
+				channel,
+				initialValue: this.#initialValue(scope, client),
+			})
+		)
+	}
+
+	/**
+	 * Disposes of the states no client receives anymore.
+	 */
+	private onUnlisten({ channel }: { channel: string }) {
+		if (!isPattern(channel)) {
+			if (channel.startsWith(this.#prefix)) {
+				this.#collect(channel.slice(this.#prefix.length))
+			}
+			return
+		}
+
+		this.#states.forEach((_, scope) => {
+			if (matchPattern(channel, this.channel(scope))) this.#collect(scope)
+		})
+	}
+
+	#collect(scope: string) {
+		const state = this.#states.get(scope)
+
+		if (!state || this.#manager.listeners(this.channel(scope)).length > 0) {
+			return
+		}
+
+		state.dispose()
+		this.#states.delete(scope)
+	}
+}
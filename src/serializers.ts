@@ -0,0 +1,135 @@
+import { decode, encode } from './msgpack.js'
+import { safeJsonParse } from './utils.js'
+
+import type { EvSerializer } from './types.js'
+
+/**
+ * Default serializer. Strings are sent as is, objects are encoded with `JSON.stringify`.
+ */
+export const jsonSerializer: EvSerializer = {
+	serialize: (data) => safeJsonParse(data),
+	deserialize: (text) => {
+		try {
+			return JSON.parse(text)
+		} catch {
+			return text
+		}
+	},
+}
+
+/**
+ * Tag used by `superJsonSerializer` for values JSON can't represent.
+ */
+interface EvTaggedValue {
+	$type: 'Date' | 'BigInt' | 'Map' | 'Set' | 'undefined' | 'Number'
+	value?: any
+}
+
+function isTagged(value: any): value is EvTaggedValue {
+	return (
+		value !== null &&
+		typeof value === 'object' &&
+		typeof value.$type === 'string' &&
+		Object.keys(value).every((key) => key === '$type' || key === 'value')
+	)
+}
+
+/**
+ * Serializer keeping `Date`, `BigInt`, `Map`, `Set`, `undefined` and non-finite numbers.
+ *
+ * Such values are encoded as `{ "$type": "Date", "value": "2024-01-01T00:00:00.000Z" }` and
+ * restored by `deserialize()`. Strings are sent as is.
+ */
+export const superJsonSerializer: EvSerializer = {
+	serialize: (data) => {
+		if (typeof data === 'string') return data
+
+		try {
+			return JSON.stringify(data, function (key, value) {
+				// `Date.toJSON` runs before the replacer, so the raw value is read from the holder
+				const raw = this[key]
+
+				if (raw instanceof Date)
+					return { $type: 'Date', value: raw.toISOString() }
+				if (typeof raw === 'bigint')
+					return { $type: 'BigInt', value: raw.toString() }
+				if (raw instanceof Map)
+					return { $type: 'Map', value: [...raw.entries()] }
+				if (raw instanceof Set)
+					return { $type: 'Set', value: [...raw.values()] }
+				if (raw === undefined && Array.isArray(this))
+					return { $type: 'undefined' }
+				if (typeof raw === 'number' && !Number.isFinite(raw)) {
+					return { $type: 'Number', value: String(raw) }
+				}
+
+				return value
+			})
+		} catch {
+			return ''
+		}
+	},
+	deserialize: (text) => {
+		try {
+			return JSON.parse(text, (_, value) => {
+				if (!isTagged(value)) return value
+
+				switch (value.$type) {
+					case 'Date':
+						return new Date(value.value)
+					case 'BigInt':
+						return BigInt(value.value)
+					case 'Map':
+						return new Map(value.value)
+					case 'Set':
+						return new Set(value.value)
+					case 'undefined':
+						return undefined
+					case 'Number':
+						return Number(value.value)
+				}
+
+				return value
+			})
+		} catch {
+			return text
+		}
+	},
+}
+
+function toBase64(bytes: Uint8Array) {
+	let binary = ''
+
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+	}
+
+	return btoa(binary)
+}
+
+function fromBase64(text: string) {
+	const binary = atob(text)
+	const bytes = new Uint8Array(binary.length)
+
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i)
+	}
+
+	return bytes
+}
+
+/**
+ * Serializer encoding data with MessagePack and sending it as base64 text.
+ *
+ * Useful for large numeric payloads. Clients decode it with `msgpackSerializer.deserialize()`.
+ */
+export const msgpackSerializer: EvSerializer = {
+	serialize: (data) => {
+		try {
+			return toBase64(encode(data))
+		} catch {
+			return ''
+		}
+	},
+	deserialize: (text) => decode(fromBase64(text)),
+}
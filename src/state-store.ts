@@ -0,0 +1,44 @@
+import type { EvStateStore, EvVersionedState } from './types.js'
+
+/**
+ * Whether `a` is newer than `b`. Versions are compared first, ties are broken by the writing instance.
+ */
+export function isNewer(
+	a: Pick<EvVersionedState, 'version' | 'node'>,
+	b?: Pick<EvVersionedState, 'version' | 'node'>
+) {
+	if (!b) return true
+	if (a.version !== b.version) return a.version > b.version
+
+	return (a.node || '') > (b.node || '')
+}
+
+/**
+ * In-memory implementation of {@link EvStateStore}.
+ *
+ * Values only live as long as the process, useful for tests and single instances.
+ */
+export class EvMemoryStateStore implements EvStateStore {
+	#states = new Map<string, EvVersionedState>()
+
+	async get(key: string) {
+		return this.#states.get(key)
+	}
+
+	async set(key: string, state: EvVersionedState) {
+		if (isNewer(state, this.#states.get(key))) {
+			this.#states.set(key, state)
+		}
+	}
+
+	async cas(key: string, expected: number, state: EvVersionedState) {
+		if ((this.#states.get(key)?.version ?? 0) !== expected) return false
+
+		this.#states.set(key, state)
+		return true
+	}
+
+	async delete(key: string) {
+		this.#states.delete(key)
+	}
+}
@@ -1,21 +1,164 @@
 import loadash from 'lodash'
 
 import { EvStreamManager } from './manager.js'
-import { EvStateAdapter, EvStateOptions } from './types.js'
+import { EvThrottle } from './throttle.js'
+import { isPattern, matchPattern } from './matcher.js'
+import { isNewer } from './state-store.js'
+import { uid } from './utils.js'
+import {
+	applyMergePatch,
+	applyPatch,
+	diff,
+	getIn,
+	mergeDiff,
+	pathSegments,
+	setIn,
+} from './patch.js'
+import {
+	EvListenerInfo,
+	EvStateAdapter,
+	EvStateConflict,
+	EvStateDelta,
+	EvStateOptions,
+	EvStatePath,
+	EvStateProjection,
+	EvStateStore,
+} from './types.js'
 
 const { isEqual } = loadash
 
 type EvSetState<T> = (val: T) => T
 
+/**
+ * Changes of a state made during a batch.
+ */
+interface EvBatchEntry {
+	commit(): void
+	rollback(): void
+}
+
+let batchDepth = 0
+const batched = new Set<EvBatchEntry>()
+
+type EvSnapshotHandler = (client: EvListenerInfo) => void
+
+/**
+ * Snapshot handlers of the states of a manager, keyed by channel, with the `listen` event
+ * count at which they were added.
+ */
+interface EvListenRegistry {
+	channels: Map<string, Map<EvSnapshotHandler, number>>
+	listens: number
+	onListen: (event: EvListenerInfo & { channel: string }) => void
+}
+
+const registries = new WeakMap<EvStreamManager<any>, EvListenRegistry>()
+
+/**
+ * Calls `handler` with the clients which start listening to `channel` or a matching pattern.
+ *
+ * Every manager has a single `listen` listener which dispatches the event by channel, so
+ * the cost of an event doesn't grow with the number of states. Returns a function removing
+ * the handler.
+ */
+function onChannelListen(
+	manager: EvStreamManager<any>,
+	channel: string,
+	handler: EvSnapshotHandler
+) {
+	let registry = registries.get(manager)
+
+	if (!registry) {
+		const created: EvListenRegistry = {
+			channels: new Map(),
+			listens: 0,
+			onListen: ({ channel: name, ...client }) => {
+				const listen = ++created.listens
+				const handlers = isPattern(name)
+					? [...created.channels].flatMap(([channel, handlers]) =>
+							matchPattern(name, channel) ? [...handlers] : []
+						)
+					: [...(created.channels.get(name) || [])]
+
+				// States created by this event already sent their value
+				handlers.forEach(([fn, added]) => {
+					if (added < listen) fn(client)
+				})
+			},
+		}
+
+		registry = created
+		registries.set(manager, registry)
+		manager.on('listen', registry.onListen)
+	}
+
+	let handlers = registry.channels.get(channel)
+
+	if (!handlers) {
+		handlers = new Map()
+		registry.channels.set(channel, handlers)
+	}
+
+	handlers.set(handler, registry.listens)
+
+	return () => {
+		handlers!.delete(handler)
+		if (handlers!.size > 0) return
+
+		registry!.channels.delete(channel)
+
+		if (registry!.channels.size === 0) {
+			manager.off('listen', registry!.onListen)
+			registries.delete(manager)
+		}
+	}
+}
+
 /**
  * EvState holds a reactive state and broadcasts updates to a channel using EvStreamManager.
+ *
+ * Clients receive a snapshot of the value when they start listening to the channel.
+ * Every broadcast carries a `version`. With `delta`, only the changes are broadcast.
+ * With `project`, every client receives its own view of the value.
+ *
+ * Versions are Lamport clocks : instances adopt the versions they receive, so a change
+ * always gets a version higher than the changes it has seen. Two instances changing the
+ * state at once produce the same version, which is resolved by the `conflict` strategy.
  */
 export class EvState<T> {
 	#value: T
 	#channel: string
-	#manager: EvStreamManager
+	#manager: EvStreamManager<any>
 	#key: string
 	#adapter?: EvStateAdapter
+	#throttle?: EvThrottle<T>
+	#delta?: EvStateDelta
+	#store?: EvStateStore
+	#conflict: EvStateConflict<T>
+	// Last broadcast value and its version, `#value` is ahead of it while throttled
+	#sent: T
+	#version: number
+	// Instance which wrote the last broadcast value
+	#writer?: string
+	#node: string
+	// A remote change was made on top of another value than the local one
+	#diverged: boolean
+	#listeners = new Set<(value: T, prev: T) => void>()
+	// Value before the running batch changed it
+	#before?: { value: T }
+	#batch: EvBatchEntry
+	#project?: EvStateProjection<T>
+	// Last view sent to every client with its version, when projected
+	#views = new Map<string, { value: unknown; version: number }>()
+	// Resolves once the adapter subscription is made
+	#subscribed?: Promise<void>
+	#removeListenHandler: () => void
+	#disposed = false
+
+	/**
+	 * Resolves once the value was loaded from the `store`.
+	 */
+	readonly ready: Promise<void>
 
 	constructor({
 		channel,
@@ -23,34 +166,386 @@ export class EvState<T> {
 		manager,
 		key,
 		adapter,
+		throttle,
+		delta,
+		store,
+		conflict,
+		project,
 	}: EvStateOptions<T>) {
 		this.#value = initialValue
+		this.#sent = initialValue
+		this.#version = 0
+		this.#node = uid({ counter: Math.ceil(Math.random() * 100) })
+		this.#diverged = false
+		this.#store = store
+		this.#conflict = conflict || 'lww'
 		this.#channel = channel
 		this.#manager = manager
 		this.#key = key || 'value'
 		this.#adapter = adapter
+		this.#delta = delta
+		this.#project = project
+
+		if (throttle) {
+			// The final value must always be sent, so a trailing emission can't be disabled
+			this.#throttle = new EvThrottle(
+				{
+					...(typeof throttle === 'number' ? { interval: throttle } : throttle),
+					trailing: true,
+				},
+				(value) => this.#broadcast(value)
+			)
+		}
+
+		this.onRemoteUpdate = this.onRemoteUpdate.bind(this)
+		this.onError = this.onError.bind(this)
 
 		if (this.#adapter) {
-			this.#adapter.subscribe(this.#channel, (data) => {
-				this.#handleRemoteUpdate(data)
-			})
+			const adapter = this.#adapter
+
+			this.#subscribed = adapter.subscribe(this.#channel, this.onRemoteUpdate)
+			// Instances which already hold the state reply with its latest value
+			this.#subscribed
+				.then(() => {
+					if (!this.#disposed) this.#publish({ resync: true })
+				})
+				.catch(this.onError)
+		}
+
+		this.#removeListenHandler = onChannelListen(
+			this.#manager,
+			this.#channel,
+			(client) => this.#sendSnapshot(client)
+		)
+
+		// Clients may already listen to the channel, e.g. when the state is created on demand
+		this.#manager
+			.listeners(this.#channel)
+			.forEach((client) => this.#sendSnapshot(client))
+
+		this.#batch = {
+			commit: () => {
+				const prev = this.#before!.value
+				this.#before = undefined
+
+				if (!isEqual(prev, this.#value)) this.#changed(prev)
+			},
+			rollback: () => {
+				this.#value = this.#before!.value
+				this.#before = undefined
+			},
 		}
+
+		this.ready = this.#load()
+		// Callers may await `ready`, a failed load is reported either way
+		this.ready.catch(this.onError)
 	}
 
-	#handleRemoteUpdate(data: any) {
-		if (data && typeof data === 'object' && this.#key in data) {
-			const newValue = data[this.#key]
+	/**
+	 * Runs `fn` and defers the broadcasts of the states it changes until it returns.
+	 *
+	 * Every changed state notifies its subscribers and broadcasts once, with its final value,
+	 * so computed states never see intermediate values. When `fn` throws, the changes are
+	 * rolled back and nothing is broadcast. Batches can be nested, `fn` must be synchronous.
+	 */
+	static batch<R>(fn: () => R): R {
+		batchDepth += 1
 
-			if (!isEqual(newValue, this.#value)) {
-				this.#value = newValue
-				this.#manager.send(this.#channel, {
-					event: this.#channel,
-					data: {
-						[this.#key]: newValue,
-					},
-				})
+		let result: R
+
+		try {
+			result = fn()
+		} catch (error) {
+			if (batchDepth === 1) {
+				batched.forEach((entry) => entry.rollback())
+				batched.clear()
 			}
+
+			batchDepth -= 1
+			throw error
+		}
+
+		if (batchDepth === 1) {
+			// Subscribers may change other states, which are committed in the same batch
+			while (batched.size > 0) {
+				const entries = [...batched]
+
+				batched.clear()
+				entries.forEach((entry) => entry.commit())
+			}
+		}
+
+		batchDepth -= 1
+		return result
+	}
+
+	/**
+	 * Loads the stored value, kept when it's newer than the local one.
+	 */
+	async #load() {
+		if (!this.#store) return
+
+		const stored = await this.#store.get(this.#channel)
+
+		if (stored && isNewer(stored, this.#current())) {
+			this.#adopt(stored.value, stored.version, stored.node)
+			this.#forward()
+		} else if (this.#version > 0) {
+			this.#persist()
+		}
+	}
+
+	#persist() {
+		this.#store
+			?.set(this.#channel, this.#current({ value: this.#sent }))
+			.catch(this.onError)
+	}
+
+	#current<V>(extra?: V) {
+		return { version: this.#version, node: this.#writer, ...extra }
+	}
+
+	/**
+	 * Sends the current value to a client which started listening to the channel or a matching pattern.
+	 */
+	#sendSnapshot(client: EvListenerInfo) {
+		if (this.#project) {
+			this.#views.delete(client.id)
+			this.#sendView(client)
+			return
+		}
+
+		this.#manager.deliver(client.id, this.#channel, {
+			event: this.#channel,
+			data: { ...this.#snapshot(), snapshot: true },
+		})
+	}
+
+	/**
+	 * Sends a change of the last broadcast value to the local clients.
+	 */
+	#send(data: Record<string, any>) {
+		if (this.#disposed) return
+
+		if (!this.#project) {
+			this.#manager.send(this.#channel, { event: this.#channel, data })
+			return
+		}
+
+		// Views of the clients which stopped listening are dropped
+		const views = this.#views
+		this.#views = new Map()
+
+		this.#manager.listeners(this.#channel).forEach((client) => {
+			const view = views.get(client.id)
+
+			if (view) this.#views.set(client.id, view)
+			this.#sendView(client)
+		})
+	}
+
+	/**
+	 * Sends the view of the last broadcast value to a client, as a change of its previous view.
+	 *
+	 * Every client has its own sequence of versions, so unchanged views aren't sent.
+	 * Views are delivered to the client only : they're neither recorded nor published.
+	 */
+	#sendView(client: EvListenerInfo) {
+		const value = this.#project!(this.#sent, client)
+		const prev = this.#views.get(client.id)
+		let data: Record<string, any> | undefined = {
+			[this.#key]: value,
+			snapshot: true,
 		}
+
+		if (prev) {
+			// Views are rebuilt on every change, most of them are equal to the previous one
+			data = isEqual(prev.value, value)
+				? undefined
+				: this.#changes(prev.value, value)
+		}
+
+		if (!data) return
+
+		data.version = (prev?.version || 0) + 1
+		this.#views.set(client.id, { value, version: data.version })
+
+		this.#manager.deliver(client.id, this.#channel, {
+			event: this.#channel,
+			data,
+		})
+	}
+
+	/**
+	 * Last broadcast value with its version.
+	 */
+	#snapshot() {
+		return { [this.#key]: this.#sent, version: this.#version }
+	}
+
+	/**
+	 * Publishes the last broadcast value to the other instances.
+	 */
+	#publishSnapshot() {
+		this.#publish({ ...this.#snapshot(), node: this.#writer })
+	}
+
+	/**
+	 * Publishes a message to the other instances.
+	 */
+	#publish(message: Record<string, any>) {
+		this.#adapter?.publish(this.#channel, message).catch(this.onError)
+	}
+
+	/**
+	 * Emits a failed load, write or publication on the manager's `error` event.
+	 */
+	private onError(error: Error) {
+		this.#manager.report(error)
+	}
+
+	/**
+	 * Applies an update published by another instance and forwards it to the local clients.
+	 *
+	 * Deltas must follow the local version and value. A newer one means updates were
+	 * missed and one made on top of another value means the state was changed at once
+	 * on several instances, in both cases the full value is requested.
+	 */
+	private onRemoteUpdate(data: any) {
+		if (this.#disposed || !data || typeof data !== 'object') return
+
+		const { version, node, base, ...payload } = data
+
+		if (data.resync) {
+			if (this.#version > 0) this.#publishSnapshot()
+			return
+		}
+
+		if (this.#key in data) {
+			this.#receive(data[this.#key], version, node)
+			return
+		}
+
+		if (version === undefined || !('patch' in data || 'merge' in data)) return
+
+		if (version === this.#version + 1 && base === this.#writer) {
+			let newValue: T
+
+			try {
+				newValue =
+					'patch' in data
+						? applyPatch(this.#sent, data.patch)
+						: applyMergePatch(this.#sent, data.merge)
+			} catch {
+				this.#publish({ resync: true })
+				return
+			}
+
+			this.#adopt(newValue, version, node)
+			this.#send({ ...payload, version })
+			return
+		}
+
+		if (version > this.#version) {
+			this.#diverged = version === this.#version + 1
+			this.#publish({ resync: true })
+			return
+		}
+
+		if (version === this.#version && node !== this.#writer) {
+			if (this.#conflict === 'lww') {
+				// The winner publishes its value, which the other instances adopt
+				if (!isNewer({ version, node }, this.#current()))
+					this.#publishSnapshot()
+			} else {
+				this.#publish({ resync: true })
+			}
+		}
+	}
+
+	/**
+	 * Applies a full value published by another instance.
+	 */
+	#receive(value: T, version?: number, node?: string) {
+		// Instances without versions always replace the value
+		if (version === undefined) {
+			if (!isEqual(value, this.#sent)) {
+				this.#adopt(value, this.#version + 1, node)
+				this.#forward()
+			}
+			return
+		}
+
+		if (isEqual(value, this.#sent)) {
+			if (isNewer({ version, node }, this.#current())) {
+				this.#version = version
+				this.#writer = node
+			}
+			return
+		}
+
+		// Older values are replaced by the changes which follow them
+		if (version < this.#version) return
+
+		const concurrent = version === this.#version || this.#diverged
+		this.#diverged = false
+
+		if (concurrent && typeof this.#conflict === 'function') {
+			const merged = this.#conflict(this.#sent, value)
+
+			this.#adopt(value, Math.max(version, this.#version), node)
+			this.#forward()
+
+			// Broadcast with a new version, which the other instances adopt
+			if (!isEqual(merged, value)) this.set(() => merged)
+			return
+		}
+
+		if (!isNewer({ version, node }, this.#current())) {
+			this.#publishSnapshot()
+			return
+		}
+
+		this.#adopt(value, version, node)
+		this.#forward()
+	}
+
+	/**
+	 * Sends the value adopted from another instance to the local clients.
+	 */
+	#forward() {
+		// Replaces values built from changes the other instances discarded
+		this.#send({ ...this.#snapshot(), snapshot: true })
+	}
+
+	#adopt(value: T, version: number, node?: string) {
+		const prev = this.#value
+
+		this.#throttle?.cancel()
+		this.#value = value
+		this.#sent = value
+		this.#version = version
+		this.#writer = node
+
+		if (!this.#store?.shared) this.#persist()
+		if (!isEqual(prev, value)) this.#notify(prev)
+	}
+
+	#notify(prev: T) {
+		this.#listeners.forEach((listener) => listener(this.#value, prev))
+	}
+
+	/**
+	 * Notifies the subscribers of a local change and broadcasts it.
+	 */
+	#changed(prev: T) {
+		if (this.#throttle) {
+			this.#throttle.push(this.#key, this.#value)
+		} else {
+			this.#broadcast(this.#value)
+		}
+
+		this.#notify(prev)
 	}
 
 	/**
@@ -62,23 +557,182 @@ export class EvState<T> {
 
 	/**
 	 * Updates the state using a callback.
-	 * Broadcasts the new value if it has changed.
+	 * Broadcasts the new value if it has changed, at the end of the batch inside {@link EvState.batch}.
+	 *
+	 * With `throttle`, the value is updated at once but broadcast at most once per interval.
 	 */
 	set(callback: EvSetState<T>) {
 		const newValue = callback(this.#value)
 
-		if (!isEqual(newValue, this.#value)) {
+		if (isEqual(newValue, this.#value)) return
+
+		if (batchDepth > 0) {
+			this.#before ??= { value: this.#value }
 			this.#value = newValue
-			this.#manager.send(this.#channel, {
-				event: this.#channel,
-				data: {
-					[this.#key]: newValue,
-				},
+			batched.add(this.#batch)
+			return
+		}
+
+		const prev = this.#value
+
+		this.#value = newValue
+		this.#changed(prev)
+	}
+
+	/**
+	 * Registers a server-side listener called with the new and the previous value
+	 * after every change, local or received from another instance. Returns a function removing it.
+	 */
+	subscribe(listener: (value: T, prev: T) => void) {
+		this.#listeners.add(listener)
+
+		return () => {
+			this.#listeners.delete(listener)
+		}
+	}
+
+	/**
+	 * Replaces the value at a path, e.g. `setIn(['rows', 3, 'score'], 10)` or `setIn('rows.3.score', 10)`.
+	 * Only the containers along the path are copied.
+	 */
+	setIn(path: EvStatePath, value: unknown) {
+		const segments = pathSegments(path)
+
+		this.set((current) => setIn(current, segments, value))
+	}
+
+	/**
+	 * Updates the value at a path using a callback.
+	 */
+	update<V = any>(path: EvStatePath, callback: (val: V) => V) {
+		const segments = pathSegments(path)
+
+		this.set((current) =>
+			setIn(current, segments, callback(getIn(current, segments)))
+		)
+	}
+
+	/**
+	 * Sets the value only if the current value equals `expected`. Resolves with whether it was set.
+	 *
+	 * With a `store`, the check is made against the stored version, so a value changed by another
+	 * instance is never overwritten. The stored value is then loaded. When the state changed while
+	 * the value was written, the newest of both is kept.
+	 */
+	async cas(expected: T, next: T) {
+		if (!isEqual(this.#value, expected)) return false
+		if (isEqual(next, this.#value)) return true
+
+		if (this.#store) {
+			const version = this.#version
+			const stored = await this.#store.cas(this.#channel, version, {
+				value: next,
+				version: version + 1,
+				node: this.#node,
 			})
 
-			if (this.#adapter) {
-				this.#adapter.publish(this.#channel, { [this.#key]: newValue })
+			if (!stored) {
+				await this.#load()
+				return false
+			}
+
+			// Changed while the store was written : the newest of both values is kept and broadcast
+			if (this.#version !== version) {
+				if (this.#writer === this.#node && this.#version === version + 1) {
+					// A local change took the written version, it's the latest value and gets the next one
+					this.#version += 1
+					this.#persist()
+					this.#publishSnapshot()
+					this.#forward()
+				} else {
+					await this.#load()
+				}
+
+				return true
 			}
 		}
+
+		const prev = this.#value
+
+		this.#throttle?.cancel()
+		this.#value = next
+		this.#broadcast(next, !this.#store)
+		this.#notify(prev)
+		return true
+	}
+
+	#broadcast(value: T, persist = true) {
+		const data = this.#disposed ? undefined : this.#changes(this.#sent, value)
+
+		if (!data) return
+
+		const base = this.#writer
+
+		this.#sent = value
+		this.#version += 1
+		this.#writer = this.#node
+		data.version = this.#version
+
+		this.#send(data)
+
+		this.#publish({ ...data, node: this.#node, base })
+
+		if (persist) this.#persist()
+	}
+
+	/**
+	 * Returns the payload describing the change from `prev` to `value`.
+	 */
+	#changes(prev: unknown, value: unknown): Record<string, any> | undefined {
+		if (this.#delta === 'json-patch') {
+			const patch = diff(prev, value)
+
+			if (patch.length === 0) return
+
+			// Replacing the root is the full value
+			return patch.length === 1 && patch[0].path === ''
+				? { [this.#key]: value }
+				: { patch }
+		}
+
+		if (this.#delta === 'merge-patch') {
+			const merge = mergeDiff(prev, value)
+
+			if (merge ? Object.keys(merge).length === 0 : isEqual(prev, value)) return
+
+			return merge ? { merge } : { [this.#key]: value }
+		}
+
+		return { [this.#key]: value }
+	}
+
+	/**
+	 * Stops the state : pending broadcasts are dropped, the clients and the other instances
+	 * aren't updated anymore and the subscribers are removed. Local clients listening to the
+	 * channel receive a `state:removed` event. Only the adapter handler of this state is removed.
+	 */
+	dispose() {
+		if (this.#disposed) return
+
+		this.#disposed = true
+		this.#removeListenHandler()
+		this.#throttle?.cancel()
+		batched.delete(this.#batch)
+
+		this.#manager.listeners(this.#channel).forEach(({ id }) => {
+			this.#manager.deliver(id, this.#channel, {
+				event: 'state:removed',
+				data: {},
+			})
+		})
+
+		const adapter = this.#adapter
+
+		this.#subscribed
+			?.then(() => adapter!.unsubscribe(this.#channel, this.onRemoteUpdate))
+			.catch(() => {})
+
+		this.#listeners.clear()
+		this.#views.clear()
 	}
 }
@@ -1,6 +1,30 @@
-import { IncomingMessage, ServerResponse } from 'http'
-import { EvMessage, EvOptions } from './types.js'
+import type { IncomingMessage, ServerResponse } from 'http'
+import {
+	EvErrorEventData,
+	EvIdentity,
+	EvMessage,
+	EvOptions,
+	EvOverflowPolicy,
+	EvTokenAuthenticationOptions,
+	EvTransport,
+} from './types.js'
 import { message } from './message.js'
+import { EvNodeTransport } from './transport.js'
+import { EvTokenBucket } from './throttle.js'
+import { negotiateEncoding } from './utils.js'
+
+/**
+ * Runs `fn` at the end of the current microtask or event loop tick.
+ */
+function defer(mode: EvOptions['batch'], fn: () => void) {
+	if (mode === 'microtask') {
+		queueMicrotask(fn)
+	} else if (typeof setImmediate === 'function') {
+		setImmediate(fn)
+	} else {
+		setTimeout(fn, 0)
+	}
+}
 
 /**
  * Evstream manages a Server-Sent Events (SSE) connection.
@@ -12,36 +36,137 @@ import { message } from './message.js'
  *
  * ev.message({event: "message", data: {message: "a message"}, id: "event_id_1"})
  * ```
+ *
+ * With `batch`, frames written together are combined into a single write. With `compression`,
+ * the stream is compressed with an encoding accepted by the client and flushed after every write.
+ *
+ * Any other runtime can be used by passing an {@link EvTransport} instead of `req` and `res` :
+ *
+ * ```javascript
+ * const transport = new EvWebTransport(request);
+ * const ev = new Evstream(transport);
+ *
+ * return transport.response;
+ * ```
  */
 export class Evstream {
-	#res: ServerResponse
+	#transport: EvTransport
 	#opts?: EvOptions
 	#url: URL
-	#heartbeatInterval?: NodeJS.Timeout
-	#onCloseHandler?: () => void
-	constructor(req: IncomingMessage, res: ServerResponse, opts?: EvOptions) {
-		this.#res = res
-		this.#opts = opts
-		this.#url = new URL(req.url!, `http://${req.headers.host}`)
-
-		this.#res.setHeader('Content-Type', 'text/event-stream')
-		this.#res.setHeader('Cache-Control', 'no-cache')
-		this.#res.setHeader('Connection', 'keep-alive')
-		this.#res.flushHeaders()
-
-		if (opts?.heartbeat) {
+	#heartbeatInterval?: ReturnType<typeof setInterval>
+	#removeCloseListener?: () => void
+	#removeDrainListener?: () => void
+	#lastEventId?: string
+	#identity?: EvIdentity
+	#pending: { event: string; frame: string }[]
+	#pendingBytes: number
+	#congested: boolean
+	#dropped: number
+	#rateLimit?: EvTokenBucket
+	// Frames waiting for the end of the microtask or tick with `batch`
+	#batched: string
+	#scheduled: boolean
+	#recheckTimer?: ReturnType<typeof setTimeout>
+	constructor(req: IncomingMessage, res: ServerResponse, opts?: EvOptions)
+	constructor(transport: EvTransport, opts?: EvOptions)
+	constructor(
+		reqOrTransport: IncomingMessage | EvTransport,
+		resOrOpts?: ServerResponse | EvOptions,
+		opts?: EvOptions
+	) {
+		if (typeof (reqOrTransport as EvTransport).open === 'function') {
+			this.#transport = reqOrTransport as EvTransport
+			this.#opts = resOrOpts as EvOptions
+		} else {
+			this.#transport = new EvNodeTransport(
+				reqOrTransport as IncomingMessage,
+				resOrOpts as ServerResponse
+			)
+			this.#opts = opts
+		}
+
+		this.#url = this.#transport.url
+		this.#pending = []
+		this.#pendingBytes = 0
+		this.#congested = false
+		this.#dropped = 0
+		this.#batched = ''
+		this.#scheduled = false
+
+		const rateLimit = this.#opts?.rateLimit
+		if (rateLimit) {
+			this.#rateLimit = new EvTokenBucket(
+				rateLimit.messages,
+				rateLimit.interval || 1000,
+				rateLimit.burst
+			)
+		}
+
+		// EventSource can't set headers, clients reconnecting with a new one send it as a query parameter
+		this.#lastEventId =
+			this.#transport.header('last-event-id') ||
+			this.#url.searchParams.get('lastEventId') ||
+			undefined
+
+		const headers: Record<string, string> = {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+		}
+
+		const compression = this.#opts?.compression
+		if (compression) {
+			const encoding = negotiateEncoding(
+				this.#transport.header('accept-encoding'),
+				compression === true ? ['br', 'gzip', 'deflate'] : compression
+			)
+
+			// Transports which can't compress send the stream as-is
+			if (encoding && this.#transport.compress?.(encoding)) {
+				headers['Content-Encoding'] = encoding
+				headers['Vary'] = 'Accept-Encoding'
+			}
+		}
+
+		this.#transport.open(headers)
+
+		if (this.#opts?.heartbeat) {
 			this.#heartbeatInterval = setInterval(() => {
-				this.#res.write(message({ event: 'heartbeat', data: '' }))
+				// A congested client doesn't need to be kept alive
+				if (this.#congested) return
+				this.#output(
+					this.#opts.heartbeatType === 'comment'
+						? message({ comment: 'heartbeat' })
+						: message({ event: 'heartbeat', data: '' })
+				)
 			}, this.#opts.heartbeat)
 
-			this.#onCloseHandler = () => {
+			this.#removeCloseListener = this.#transport.onClose(() => {
 				this.#clearHeartbeat()
-			}
+			})
+		}
 
-			this.#res.on('close', this.#onCloseHandler)
+		if (this.#opts?.highWaterMark) {
+			this.#removeDrainListener = this.#transport.onDrain(() => {
+				this.#flush()
+			})
 		}
 	}
 
+	/**
+	 * Transport used to write to the client.
+	 */
+	get transport() {
+		return this.#transport
+	}
+
+	/**
+	 * `Last-Event-ID` sent by the client when it reconnects.
+	 */
+	get lastEventId() {
+		return this.#lastEventId
+	}
+
 	/**
 	 * Clears the heartbeat interval if it exists.
 	 * Prevents memory leaks by ensuring the interval is properly cleaned up.
@@ -54,54 +179,336 @@ export class Evstream {
 	}
 
 	/**
-	 * Removes the close event listener to prevent memory leaks.
+	 * Removes the close and drain event listeners to prevent memory leaks.
 	 */
-	#removeCloseListener() {
-		if (this.#onCloseHandler) {
-			this.#res.removeListener('close', this.#onCloseHandler)
-			this.#onCloseHandler = undefined
+	#clearCloseListener() {
+		if (this.#removeCloseListener) {
+			this.#removeCloseListener()
+			this.#removeCloseListener = undefined
+		}
+
+		if (this.#removeDrainListener) {
+			this.#removeDrainListener()
+			this.#removeDrainListener = undefined
 		}
 	}
 
+	/**
+	 * Whether the client is over its `highWaterMark`.
+	 */
+	get congested() {
+		return this.#congested
+	}
+
+	/**
+	 * Messages dropped so far by the overflow policy or the rate limit.
+	 */
+	get dropped() {
+		return this.#dropped
+	}
+
+	/**
+	 * Writes a frame to the transport, combined with the other frames of the microtask or tick with `batch`.
+	 */
+	#output(frame: string) {
+		const batch = this.#opts?.batch
+
+		if (!batch) {
+			return this.#transport.write(frame)
+		}
+
+		this.#batched += frame
+
+		if (!this.#scheduled) {
+			this.#scheduled = true
+			defer(batch, () => this.#flushBatch())
+		}
+
+		return true
+	}
+
+	#flushBatch() {
+		this.#scheduled = false
+
+		if (!this.#batched) return
+
+		const chunk = this.#batched
+		this.#batched = ''
+
+		const written = this.#transport.write(chunk)
+		const highWaterMark = this.#opts?.highWaterMark
+
+		// Batched frames only count once they reach the transport
+		if (
+			highWaterMark &&
+			!this.#congested &&
+			this.#buffered() >= highWaterMark
+		) {
+			this.#congest(written)
+		}
+	}
+
+	/**
+	 * Number of bytes written to the transport but not yet sent.
+	 */
+	#buffered() {
+		return this.#transport.buffered
+	}
+
+	/**
+	 * Writes the pending batch and ends the stream.
+	 */
+	#end() {
+		this.#flushBatch()
+		this.#transport.end()
+	}
+
+	/**
+	 * Writes a frame to the transport while respecting the `highWaterMark`.
+	 * Frames sent while the client is congested are handled by the `overflow` policy.
+	 */
+	#write(frame: string, event: string) {
+		const highWaterMark = this.#opts?.highWaterMark
+
+		if (!highWaterMark) {
+			this.#output(frame)
+			return
+		}
+
+		// The buffer may have been sent without any `drain` event
+		if (this.#congested && this.#buffered() < highWaterMark) {
+			this.#flush()
+		}
+
+		if (!this.#congested) {
+			const written = this.#output(frame)
+
+			if (this.#buffered() >= highWaterMark) {
+				this.#congest(written)
+			}
+
+			return
+		}
+
+		this.#overflow(frame, event)
+	}
+
+	/**
+	 * Marks the client as congested and notifies `onSlowConsumer`.
+	 * `written` is whether the transport accepted the last write without buffering it.
+	 */
+	#congest(written: boolean) {
+		const policy = this.#policy()
+
+		this.#congested = true
+		this.#opts?.onSlowConsumer?.({
+			policy,
+			buffered: this.#buffered(),
+			dropped: this.#dropped,
+		})
+
+		if (policy === 'disconnect') {
+			this.#clearHeartbeat()
+			this.#end()
+			return
+		}
+
+		if (written) this.#recheck()
+	}
+
+	/**
+	 * Checks the buffer again later. Transports only emit `drain` after a write returned `false`,
+	 * which doesn't happen while the buffer is under their own limit, e.g. below a `highWaterMark`
+	 * smaller than the socket buffer.
+	 */
+	#recheck() {
+		if (this.#recheckTimer) return
+
+		this.#recheckTimer = setTimeout(() => {
+			this.#recheckTimer = undefined
+
+			if (!this.#congested || this.#transport.ended) return
+
+			if (this.#buffered() < this.#opts.highWaterMark) {
+				this.#flush()
+			} else {
+				this.#recheck()
+			}
+		}, 50)
+		;(this.#recheckTimer as { unref?: () => void }).unref?.()
+	}
+
+	#policy(): EvOverflowPolicy {
+		return this.#opts?.overflow || 'drop-oldest'
+	}
+
+	/**
+	 * Queues a frame for a congested client according to the `overflow` policy.
+	 * The queue is bounded by the `highWaterMark`.
+	 */
+	#overflow(frame: string, event: string) {
+		const policy = this.#policy()
+		const highWaterMark = this.#opts.highWaterMark
+
+		if (policy === 'disconnect') {
+			this.#dropped += 1
+			return
+		}
+
+		if (policy === 'drop-newest') {
+			if (this.#pendingBytes + frame.length > highWaterMark) {
+				this.#dropped += 1
+				return
+			}
+		}
+
+		if (policy === 'coalesce') {
+			const index = this.#pending.findIndex((item) => item.event === event)
+
+			if (index !== -1) {
+				this.#pendingBytes -= this.#pending[index].frame.length
+				this.#pending.splice(index, 1)
+				this.#dropped += 1
+			}
+		}
+
+		this.#pending.push({ event, frame })
+		this.#pendingBytes += frame.length
+
+		while (this.#pendingBytes > highWaterMark && this.#pending.length > 1) {
+			this.#pendingBytes -= this.#pending.shift().frame.length
+			this.#dropped += 1
+		}
+	}
+
+	/**
+	 * Writes the queued frames once the transport drained.
+	 */
+	#flush() {
+		const highWaterMark = this.#opts.highWaterMark
+
+		this.#congested = false
+
+		while (this.#pending.length > 0) {
+			const { frame } = this.#pending.shift()
+			this.#pendingBytes -= frame.length
+			const written = this.#output(frame)
+
+			if (this.#buffered() >= highWaterMark) {
+				this.#congested = true
+
+				if (written) this.#recheck()
+				return
+			}
+		}
+	}
+
+	/**
+	 * Reads the authentication token from the request according to the authentication `method`.
+	 */
+	#token(authentication: EvTokenAuthenticationOptions) {
+		switch (authentication.method) {
+			case 'header': {
+				const value = this.#transport.header(
+					authentication.param || 'authorization'
+				)
+
+				return value?.replace(/^Bearer\s+/i, '') || null
+			}
+
+			case 'cookie': {
+				const name = authentication.param || 'token'
+				const cookies = this.#transport.header('cookie') || ''
+
+				for (const cookie of cookies.split(';')) {
+					const index = cookie.indexOf('=')
+
+					if (index !== -1 && cookie.slice(0, index).trim() === name) {
+						try {
+							return decodeURIComponent(cookie.slice(index + 1).trim())
+						} catch {
+							return cookie.slice(index + 1).trim()
+						}
+					}
+				}
+
+				return null
+			}
+
+			default:
+				return this.#url.searchParams.get(authentication.param || 'token')
+		}
+	}
+
+	/**
+	 * Identity returned by the `verify` function of the authentication options.
+	 */
+	get identity() {
+		return this.#identity
+	}
+
 	/**
 	 * Handles optional authentication using provided token verification.
 	 * Sends error message and closes connection if authentication fails.
+	 *
+	 * The token is read from the query, a header or a cookie depending on the `method`.
+	 * With the `custom` method the whole request is passed to `verify`.
+	 * Resolves with `true` when no authentication is configured.
 	 */
 	async authenticate() {
-		if (this.#opts.authentication) {
-			const token = this.#url.searchParams.get(this.#opts.authentication.param)
-
-			const isAuthenticated = await this.#opts.authentication.verify(token)
-
-			if (typeof isAuthenticated === 'boolean') {
-				if (!isAuthenticated) {
-					this.#clearHeartbeat()
-					this.message({
-						data: { message: 'authentication failed' },
-						event: 'error',
-					})
-					this.#res.end()
-					return false
-				}
+		const authentication = this.#opts?.authentication
+
+		if (authentication) {
+			const result =
+				authentication.method === 'custom'
+					? await authentication.verify(this.#transport.request)
+					: await authentication.verify(this.#token(authentication))
 
+			if (result === true) {
 				return true
 			}
 
-			if (typeof isAuthenticated === 'object') {
-				this.message(isAuthenticated)
+			if (result && typeof result === 'object') {
+				if ('identity' in result) {
+					this.#identity = result.identity
+
+					if (result.message) {
+						this.message(result.message)
+					}
+				} else {
+					this.message(result)
+				}
+
 				return true
 			}
 
+			const data: EvErrorEventData = { message: 'authentication failed' }
+
+			this.#clearHeartbeat()
+			this.message({ data, event: 'error' })
+			this.#end()
 			return false
 		}
+
+		return true
 	}
 
 	/**
 	 * Sends an SSE message to the client.
 	 * Accepts an `EvMessage` object.
+	 *
+	 * Messages over the `rateLimit` are dropped and counted as dropped.
 	 */
 	message(msg: EvMessage) {
-		this.#res.write(message(msg))
+		const event = msg.event || 'message'
+		const exempt = this.#opts?.rateLimit?.exempt || ['error', 'shutdown']
+
+		if (this.#rateLimit && !exempt.includes(event) && !this.#rateLimit.take()) {
+			this.#dropped += 1
+			return
+		}
+
+		this.#write(message(msg, this.#opts?.serializer), event)
 	}
 
 	/**
@@ -110,13 +517,18 @@ export class Evstream {
 	 */
 	close() {
 		this.#clearHeartbeat()
-		this.#removeCloseListener()
+		this.#clearCloseListener()
+		clearTimeout(this.#recheckTimer)
 
-		this.message({
-			event: 'end',
-			data: '',
-		})
+		this.#pending = []
+		this.#pendingBytes = 0
+		this.#output(
+			message({
+				event: 'end',
+				data: '',
+			})
+		)
 
-		this.#res.end()
+		this.#end()
 	}
 }
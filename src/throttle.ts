@@ -0,0 +1,157 @@
+import type { EvThrottleOptions } from './types.js'
+
+interface EvThrottleEntry<T> {
+	timer?: ReturnType<typeof setTimeout>
+	pending?: { value: T }
+}
+
+/**
+ * Limits how often values are emitted, independently for every key.
+ *
+ * Values pushed while a window is running replace each other, only the latest one is
+ * emitted at the end of the window (latest value wins).
+ *
+ * - `throttle` : at most one value per `interval`
+ * - `debounce` : a value once no value was pushed for `interval`
+ */
+export class EvThrottle<T> {
+	#interval: number
+	#debounce: boolean
+	#leading: boolean
+	#trailing: boolean
+	#entries = new Map<string, EvThrottleEntry<T>>()
+	#emit: (value: T) => void
+	#onIdle?: () => void
+
+	/**
+	 * @param opts - Throttling policy
+	 * @param emit - Called with the values to emit
+	 * @param onIdle - Called once no window is running anymore
+	 */
+	constructor(
+		opts: EvThrottleOptions,
+		emit: (value: T) => void,
+		onIdle?: () => void
+	) {
+		this.#interval = opts.interval
+		this.#debounce = opts.mode === 'debounce'
+		this.#leading = opts.leading ?? !this.#debounce
+		this.#trailing = opts.trailing ?? true
+		this.#emit = emit
+		this.#onIdle = onIdle
+	}
+
+	/**
+	 * Pushes a value, emitted now or at the end of the window of its key.
+	 */
+	push(key: string, value: T) {
+		let entry = this.#entries.get(key)
+
+		if (!entry) {
+			entry = {}
+			this.#entries.set(key, entry)
+		}
+
+		if (!entry.timer) {
+			if (this.#leading) {
+				this.#emit(value)
+			} else {
+				entry.pending = { value }
+			}
+
+			entry.timer = setTimeout(() => this.#end(key), this.#interval)
+			return
+		}
+
+		entry.pending = { value }
+
+		if (this.#debounce) {
+			clearTimeout(entry.timer)
+			entry.timer = setTimeout(() => this.#end(key), this.#interval)
+		}
+	}
+
+	#end(key: string) {
+		const entry = this.#entries.get(key)
+
+		if (!entry) return
+
+		if (entry.pending && this.#trailing) {
+			const { value } = entry.pending
+			entry.pending = undefined
+			this.#emit(value)
+
+			// A new window starts so throttled values stay `interval` apart
+			if (!this.#debounce) {
+				entry.timer = setTimeout(() => this.#end(key), this.#interval)
+				return
+			}
+		}
+
+		this.#entries.delete(key)
+
+		if (this.#entries.size === 0) {
+			this.#onIdle?.()
+		}
+	}
+
+	/**
+	 * Emits the pending values at once and stops every window.
+	 */
+	flush() {
+		const entries = [...this.#entries.values()]
+
+		this.cancel()
+
+		entries.forEach((entry) => {
+			if (entry.pending && this.#trailing) this.#emit(entry.pending.value)
+		})
+
+		this.#onIdle?.()
+	}
+
+	/**
+	 * Drops the pending values and stops every window.
+	 */
+	cancel() {
+		this.#entries.forEach((entry) => clearTimeout(entry.timer))
+		this.#entries.clear()
+	}
+}
+
+/**
+ * Token bucket allowing `rate` operations per `interval`, with bursts up to `capacity`.
+ */
+export class EvTokenBucket {
+	#tokens: number
+	#capacity: number
+	#rate: number
+	#interval: number
+	#updatedAt: number
+
+	constructor(rate: number, interval: number, capacity = rate) {
+		this.#rate = rate
+		this.#interval = interval
+		this.#capacity = capacity
+		this.#tokens = capacity
+		this.#updatedAt = Date.now()
+	}
+
+	/**
+	 * Takes a token. Returns `false` when the bucket is empty.
+	 */
+	take() {
+		const now = Date.now()
+
+		this.#tokens = Math.min(
+			this.#capacity,
+			this.#tokens + ((now - this.#updatedAt) * this.#rate) / this.#interval
+		)
+		this.#updatedAt = now
+
+		if (this.#tokens < 1) return false
+
+		this.#tokens -= 1
+		return true
+	}
+}
@@ -0,0 +1,283 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { BrotliCompress, Deflate, Gzip } from 'zlib'
+
+import type { EvCompression, EvTransport } from './types.js'
+
+let zlib: Promise<typeof import('zlib')> | undefined
+
+/**
+ * Loads `zlib` on first use, so runtimes without it can still load the library.
+ */
+function loadZlib() {
+	if (!zlib) zlib = import('zlib')
+	return zlib
+}
+
+/**
+ * {@link EvTransport} writing to a Node.js `ServerResponse`.
+ *
+ * Works with any framework exposing the native `IncomingMessage` and `ServerResponse` objects (express, fastify, koa, etc.).
+ */
+export class EvNodeTransport implements EvTransport {
+	readonly request: IncomingMessage
+	readonly url: URL
+	#res: ServerResponse
+	#compressor?: Gzip | BrotliCompress | Deflate
+	#flushKind?: number
+	// Writes made while `zlib` loads
+	#pending?: string[]
+	#ending = false
+
+	constructor(req: IncomingMessage, res: ServerResponse) {
+		this.request = req
+		this.url = new URL(req.url!, `http://${req.headers.host}`)
+		this.#res = res
+	}
+
+	get ended() {
+		return (
+			this.#res.writableEnded ||
+			this.#res.destroyed ||
+			this.#ending ||
+			!!this.#compressor?.writableEnded
+		)
+	}
+
+	get buffered() {
+		return (
+			this.#res.writableLength +
+			(this.#compressor?.writableLength || 0) +
+			(this.#pending?.reduce((size, chunk) => size + chunk.length, 0) || 0)
+		)
+	}
+
+	header(name: string) {
+		const value = this.request.headers[name.toLowerCase()]
+		return Array.isArray(value) ? value[0] : value
+	}
+
+	open(headers: Record<string, string>) {
+		for (const [name, value] of Object.entries(headers)) {
+			this.#res.setHeader(name, value)
+		}
+
+		this.#res.flushHeaders()
+	}
+
+	/**
+	 * Pipes the writes through a `zlib` compressor. Writes are queued until `zlib` is loaded.
+	 */
+	compress(encoding: EvCompression) {
+		this.#pending = []
+
+		loadZlib().then(
+			({ constants, createBrotliCompress, createDeflate, createGzip }) => {
+				const compressor =
+					encoding === 'br'
+						? createBrotliCompress({
+								params: {
+									[constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT,
+								},
+							})
+						: encoding === 'gzip'
+							? createGzip()
+							: createDeflate()
+
+				compressor.on('data', (chunk: Buffer) => this.#res.write(chunk))
+				compressor.on('end', () => this.#res.end())
+				compressor.on('error', () => this.#res.destroy())
+				this.#res.once('close', () => compressor.destroy())
+
+				this.#compressor = compressor
+				this.#flushKind =
+					encoding === 'br'
+						? constants.BROTLI_OPERATION_FLUSH
+						: constants.Z_SYNC_FLUSH
+
+				const pending = this.#pending || []
+				const ending = this.#ending
+
+				// The queued writes were made before the stream ended
+				this.#pending = undefined
+				this.#ending = false
+				pending.forEach((chunk) => this.write(chunk))
+				if (ending) this.end()
+			},
+			// The headers announce a compressed stream, it can't be sent as-is anymore
+			() => this.#res.destroy()
+		)
+
+		return true
+	}
+
+	write(chunk: string) {
+		if (this.ended) return false
+
+		if (this.#pending) {
+			this.#pending.push(chunk)
+			return true
+		}
+
+		if (!this.#compressor) return this.#res.write(chunk)
+
+		const written = this.#compressor.write(chunk)
+
+		// Every write is sent at once, the client must not wait for the next one
+		this.#compressor.flush(this.#flushKind)
+		return written && !this.#res.writableNeedDrain
+	}
+
+	end() {
+		if (this.#pending) {
+			this.#ending = true
+			return
+		}
+
+		if (this.#compressor) {
+			// The response ends once the compressed data is written
+			if (!this.#compressor.writableEnded) this.#compressor.end()
+			return
+		}
+
+		if (!this.#res.writableEnded) this.#res.end()
+	}
+
+	onClose(callback: () => void) {
+		this.#res.on('close', callback)
+		return () => {
+			this.#res.removeListener('close', callback)
+		}
+	}
+
+	onDrain(callback: () => void) {
+		this.#res.on('drain', callback)
+		return () => {
+			this.#res.removeListener('drain', callback)
+		}
+	}
+}
+
+/**
+ * {@link EvTransport} streaming through a Fetch API `Response` with a `ReadableStream` body.
+ *
+ * Used for runtimes working with `Request` / `Response` objects (Hono, Next.js route handlers, Bun, Deno, Cloudflare Workers).
+ * The `response` is available once the stream is opened and must be returned from the route handler.
+ * Compression isn't supported : `CompressionStream` can't flush the data written so far.
+ */
+export class EvWebTransport implements EvTransport {
+	readonly request: Request
+	readonly url: URL
+	#response?: Response
+	#controller?: ReadableStreamDefaultController<Uint8Array>
+	#encoder: TextEncoder
+	#closeHandlers: Set<() => void>
+	#drainHandlers: Set<() => void>
+	#ended: boolean
+	#closed: boolean
+
+	constructor(request: Request) {
+		this.request = request
+		this.url = new URL(request.url)
+		this.#encoder = new TextEncoder()
+		this.#closeHandlers = new Set()
+		this.#drainHandlers = new Set()
+		this.#ended = false
+		this.#closed = false
+
+		request.signal?.addEventListener('abort', () => this.#handleClose())
+	}
+
+	/**
+	 * Response which streams the events. `undefined` until the stream is opened.
+	 */
+	get response() {
+		return this.#response
+	}
+
+	get ended() {
+		return this.#ended || this.#closed
+	}
+
+	get buffered() {
+		return Math.max(0, -(this.#controller?.desiredSize ?? 0))
+	}
+
+	header(name: string) {
+		return this.request.headers.get(name) ?? undefined
+	}
+
+	open(headers: Record<string, string>) {
+		// Queue size is counted in bytes so `desiredSize` reflects the unread data.
+		const body = new ReadableStream<Uint8Array>(
+			{
+				start: (controller) => {
+					this.#controller = controller
+				},
+				pull: () => {
+					for (const callback of [...this.#drainHandlers]) {
+						callback()
+					}
+				},
+				cancel: () => this.#handleClose(),
+			},
+			{ highWaterMark: 0, size: (chunk) => chunk.byteLength }
+		)
+
+		this.#response = new Response(body, { headers })
+	}
+
+	write(chunk: string) {
+		if (this.ended || !this.#controller) return false
+
+		try {
+			this.#controller.enqueue(this.#encoder.encode(chunk))
+		} catch {
+			this.#handleClose()
+			return false
+		}
+
+		return this.buffered === 0
+	}
+
+	end() {
+		if (this.#ended) return
+		this.#ended = true
+
+		try {
+			this.#controller?.close()
+		} catch {
+			// Stream was already cancelled by the client
+		}
+
+		this.#handleClose()
+	}
+
+	onClose(callback: () => void) {
+		this.#closeHandlers.add(callback)
+		return () => {
+			this.#closeHandlers.delete(callback)
+		}
+	}
+
+	onDrain(callback: () => void) {
+		this.#drainHandlers.add(callback)
+		return () => {
+			this.#drainHandlers.delete(callback)
+		}
+	}
+
+	/**
+	 * Invokes the close callbacks once the connection is gone.
+	 */
+	#handleClose() {
+		if (this.#closed) return
+		this.#closed = true
+
+		for (const callback of [...this.#closeHandlers]) {
+			callback()
+		}
+
+		this.#closeHandlers.clear()
+		this.#drainHandlers.clear()
+	}
+}
@@ -1,4 +1,5 @@
-import type { EvRedisPubSub } from './adapters/pub-sub.js'
+import type { IncomingMessage } from 'http'
+
 import type { EvStreamManager } from './manager.js'
 
 // Built-in event types.
@@ -8,23 +9,265 @@ export type EvEventsType = 'data' | 'error' | 'end'
 export interface EvMessage {
 	// Optional event name.
 	event?: string | EvEventsType
-	// Data to send; can be a string or object.
-	data: string | object
+	// Data to send; can be a string or object. Frames without data and event only carry the other fields.
+	data?: string | object
 	// Optional ID of the event.
 	id?: string
+	// Optional reconnection delay (in milliseconds) the client should use.
+	retry?: number
+	// Optional comment line, ignored by clients.
+	comment?: string
 }
 
-// Options for token-based authentication from query parameters.
-export interface EvAuthenticationOptions {
-	method: 'query'
-	param: string
-	verify: (token: string) => Promise<EvMessage> | undefined | null | boolean
+// Event names and payload types of every channel. Keys are channel names or template literal types (e.g. `room:${string}`).
+export type EvChannelMap = Record<string, Record<string, any>>
+
+// Message of one of the events of a channel. Untyped channels accept any `EvMessage`.
+export type EvChannelMessage<E> = string extends keyof E
+	? EvMessage
+	: {
+			[K in keyof E & string]: Omit<EvMessage, 'event' | 'data'> & {
+				event: K
+				data: E[K]
+			}
+		}[keyof E & string]
+
+// Channel names and patterns of a channel map which can be listened to.
+export type EvChannelName<C> = (keyof C & string) | `${string}*${string}`
+
+// Problem reported by a validator.
+export interface EvValidationIssue {
+	message: string
+	path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>
+}
+
+// Validator implementing the Standard Schema interface (zod, valibot, arktype...).
+export interface EvStandardSchema<T = unknown> {
+	readonly '~standard': {
+		validate(
+			value: unknown
+		):
+			| { value: T; issues?: undefined }
+			| { issues: ReadonlyArray<EvValidationIssue> }
+			| Promise<unknown>
+	}
+}
+
+// Validator exposing a zod compatible `safeParse()`.
+export interface EvSafeParseSchema<T = unknown> {
+	safeParse(
+		value: unknown
+	):
+		| { success: true; data: T }
+		| { success: false; error: { issues: ReadonlyArray<EvValidationIssue> } }
+}
+
+// Runtime validator of the data of an event. Only synchronous validation is supported.
+export type EvValidator<T = unknown> =
+	| EvStandardSchema<T>
+	| EvSafeParseSchema<T>
+
+// Validators keyed by channel name or pattern, then by event name. Messages without `event` use the `message` key.
+export type EvSchemas = Record<string, Record<string, EvValidator>>
+
+// Data of a channel message as received by clients. Object data is merged with the channel name, other data is wrapped in `data`.
+export type EvEnvelope<D = unknown> = D extends object
+	? { ch: string } & D
+	: { ch: string; data: D }
+
+// Data of the built-in `error` event, sent when authentication or a channel authorization fails.
+export interface EvErrorEventData {
+	message: 'authentication failed' | 'unauthorized'
+	channel?: string
+	reason?: string
+}
+
+// Data of the events sent by `request()` of a stream handle. The answer is passed to `EvStreamManager.resolve()` with `cid`.
+export interface EvRequestEventData<D = unknown> {
+	cid: string
+	data: D
+}
+
+// Options of `request()` of a stream handle.
+export interface EvRequestOptions {
+	// Milliseconds after which the request is rejected with `EvRequestTimeoutError`. Default is 30000.
+	timeout?: number
+}
+
+// Data of the `shutdown` event sent by `EvStreamManager.shutdown()`.
+export interface EvShutdownEventData {
+	reason: string
+}
+
+// Encodes message data to the text sent in `data:` lines.
+export interface EvSerializer {
+	serialize(data: unknown): string
+	// Decodes the text of `data:` lines. Used by clients.
+	deserialize?(text: string): unknown
+}
+
+// Incoming request of a stream. Either a Node.js `IncomingMessage` or a Fetch API `Request`.
+export type EvRequest = IncomingMessage | Request
+
+// Runtime specific writer used by `Evstream` to send data to the client.
+export interface EvTransport {
+	// Incoming request of the stream.
+	readonly request: EvRequest
+	// Absolute URL of the incoming request.
+	readonly url: URL
+	// Whether the stream was ended or the connection was closed.
+	readonly ended: boolean
+	// Returns the value of a request header.
+	header(name: string): string | undefined
+	// Sends the response headers and opens the stream.
+	open(headers: Record<string, string>): void
+	// Number of bytes written but not yet flushed to the client.
+	readonly buffered: number
+	// Writes a chunk to the stream. Returns `false` if the chunk was buffered or the stream is ended.
+	write(chunk: string): boolean
+	// Compresses the following writes, every write is flushed. Returns `false` when the encoding isn't supported. Called before `open`.
+	compress?(encoding: EvCompression): boolean
+	// Ends the stream.
+	end(): void
+	// Registers a callback invoked once the connection closes. Returns a function removing it.
+	onClose(callback: () => void): () => void
+	// Registers a callback invoked when the buffered data was flushed. Returns a function removing it.
+	onDrain(callback: () => void): () => void
+}
+
+// Content encoding of a compressed stream.
+export type EvCompression = 'br' | 'gzip' | 'deflate'
+
+// Identity of an authenticated client.
+export interface EvIdentity {
+	// User ID. Used by `EvStreamManager.toUser()` to reach every connection of the user.
+	id: string
+	[key: string]: any
+}
+
+// Successful authentication result carrying the client identity.
+export interface EvAuthResult {
+	identity: EvIdentity
+	// Optional message sent to the client.
+	message?: EvMessage
+}
+
+// Value returned by `verify`.
+// - `true` / `EvAuthResult` / `EvMessage` : authenticated
+// - `false` / `undefined` / `null` : rejected
+export type EvVerifyResult =
+	| EvAuthResult
+	| EvMessage
+	| boolean
+	| undefined
+	| null
+
+// Options for token-based authentication. The token is read from a query parameter, a header or a cookie.
+export interface EvTokenAuthenticationOptions {
+	method: 'query' | 'header' | 'cookie'
+	// Query parameter, header or cookie holding the token. Defaults to 'token' ('authorization' for headers).
+	param?: string
+	verify: (token: string | null) => EvVerifyResult | Promise<EvVerifyResult>
+}
+
+// Options for custom authentication receiving the whole request.
+export interface EvCustomAuthenticationOptions {
+	method: 'custom'
+	verify: (req: EvRequest) => EvVerifyResult | Promise<EvVerifyResult>
+}
+
+export type EvAuthenticationOptions =
+	| EvTokenAuthenticationOptions
+	| EvCustomAuthenticationOptions
+
+// Value returned by an `authorize` hook. An object can carry the reason sent to the client on denial.
+export type EvAuthorizeResult = boolean | { allow: boolean; reason?: string }
+
+// Decides whether a client may listen to a channel or pattern.
+export type EvAuthorize = (
+	identity: EvIdentity | undefined,
+	channel: string
+) => EvAuthorizeResult | Promise<EvAuthorizeResult>
+
+// Policy applied to messages sent while a client is over its `highWaterMark`.
+// - 'drop-oldest' : queue the message and drop the oldest queued ones.
+// - 'drop-newest' : drop the message once the queue is full.
+// - 'coalesce' : replace the queued message with the same event name.
+// - 'disconnect' : close the stream.
+export type EvOverflowPolicy =
+	| 'drop-oldest'
+	| 'drop-newest'
+	| 'coalesce'
+	| 'disconnect'
+
+// Details about a client which stopped reading its stream.
+export interface EvSlowConsumerInfo {
+	policy: EvOverflowPolicy
+	// Bytes buffered by the transport.
+	buffered: number
+	// Messages dropped so far.
+	dropped: number
+}
+
+// Throttling policy of a channel or a state.
+export interface EvThrottleOptions {
+	// Length of the window in milliseconds.
+	interval: number
+	// - 'throttle' : emit at most once per window.
+	// - 'debounce' : emit once no message was sent for a whole window.
+	// Default is 'throttle'.
+	mode?: 'throttle' | 'debounce'
+	// Emit the first message of a window immediately. Default is true for 'throttle', false for 'debounce'.
+	leading?: boolean
+	// Emit the latest message of a window when it ends. Default is true.
+	trailing?: boolean
+	// Messages with the same key replace each other within a window. Default is the event name. Only used by `EvStreamManager`.
+	key?: (msg: EvMessage) => string
+}
+
+// Per-client rate limit, messages over the limit are dropped.
+export interface EvRateLimitOptions {
+	// Messages allowed per `interval`.
+	messages: number
+	// Length of the window in milliseconds. Default is 1000.
+	interval?: number
+	// Messages which can be sent at once after a quiet period. Default is `messages`.
+	burst?: number
+	// Events which are never limited. Default is ['error', 'shutdown'].
+	exempt?: string[]
 }
 
 // Options for configuring a single SSE stream.
 export interface EvOptions {
 	authentication?: EvAuthenticationOptions
 	heartbeat?: number
+
+	// Send heartbeats as a full `heartbeat` event or as a comment line. Default is 'event'.
+	heartbeatType?: 'event' | 'comment'
+
+	// Serializer used for message data. Default is JSON.
+	serializer?: EvSerializer
+
+	// Max number of bytes buffered for the client before `overflow` applies. Unlimited by default.
+	highWaterMark?: number
+
+	// Policy for messages sent while the client is over its `highWaterMark`. Default is 'drop-oldest'.
+	overflow?: EvOverflowPolicy
+
+	// Invoked when the client exceeds its `highWaterMark`.
+	onSlowConsumer?: (info: EvSlowConsumerInfo) => void
+
+	// Max rate of messages sent to the client. Unlimited by default.
+	rateLimit?: EvRateLimitOptions
+
+	// Compress the stream with the first of these encodings accepted by the client, `true` is ['br', 'gzip', 'deflate']. Disabled by default.
+	compression?: boolean | EvCompression[]
+
+	// Combine the frames written in the same microtask or event loop tick into a single write. Disabled by default.
+	batch?: 'microtask' | 'tick'
+
+	// Channel authorization of the stream. Overrides `EvManagerOptions.authorize`. Only used by `EvStreamManager`.
+	authorize?: EvAuthorize
 }
 
 // Configuration options for EvStreamManager.
@@ -38,22 +281,269 @@ export interface EvManagerOptions {
 	// Max Listeners which a listener can broadcast a message to. If this limit exceeds it throw `EvMaxListenerError`
 	maxListeners?: number
 
-	pubSub?: EvRedisPubSub
+	// Transport used to fan messages out to the other instances.
+	pubSub?: EvPubSubTransport
+
+	// Decides whether a client may listen to a channel or pattern.
+	authorize?: EvAuthorize
+
+	// Cache authorization results per connection. Default is true.
+	cacheAuthorization?: boolean
+
+	// Default serializer of the streams created by the manager.
+	serializer?: EvSerializer
+
+	// Publish messages only to the instances which need them instead of every instance. Requires a `pubSub` supporting subjects.
+	routing?: boolean | EvRoutingOptions
+
+	// Validators of channel messages, checked by `send()` before the message is delivered.
+	schemas?: EvSchemas
+
+	// Throttling policies keyed by channel name or pattern, see `EvStreamManager.throttle()`.
+	throttle?: Record<string, EvThrottleOptions>
+
+	// Store which keeps per-channel event history for `Last-Event-ID` replay, `true` keeps it in memory. Default is no history.
+	history?: EvHistoryStore | boolean
+
+	// Time (in milliseconds) after connecting during which the channels a client listens to are replayed. Default is 10000.
+	replayWindow?: number
+}
+
+// Options for `EvStreamManager.shutdown()`.
+export interface EvShutdownOptions {
+	// Reconnection delay (in milliseconds) sent to clients. Default is 1000.
+	retryMs?: number
+	// Max random delay (in milliseconds) added to `retryMs` for every client. Default is `retryMs`.
+	jitter?: number
+	// Reason sent to clients with the `shutdown` event.
+	reason?: string
+	// Time (in milliseconds) after which remaining clients are closed at once. Default is 10000.
+	timeout?: number
+	// Number of clients closed at once. Default is 100.
+	batchSize?: number
+	// Delay (in milliseconds) between two batches. Default is 50.
+	batchInterval?: number
+}
+
+// Snapshot returned by `EvStreamManager.stats()`.
+export interface EvManagerStats {
+	// Connected local clients.
+	connections: number
+	// Local listeners of every exact channel.
+	channels: Record<string, number>
+	// Local listeners of every pattern.
+	patterns: Record<string, number>
+	messages: {
+		// Messages sent with `send()` on this instance.
+		sent: number
+		// Channel messages written to local clients.
+		delivered: number
+		// Messages received from the Pub/Sub.
+		pubSubIn: number
+		// Messages published to the Pub/Sub.
+		pubSubOut: number
+	}
+	// Errors by error name.
+	errors: Record<string, number>
+}
+
+// Events emitted by EvStreamManager.
+export interface EvManagerEvents {
+	// A client connected.
+	connect: (event: { id: string }) => void
+	// A client disconnected.
+	disconnect: (event: { id: string; channels: string[] }) => void
+	// A message was sent to a channel from this instance.
+	send: (event: { channel: string; message: EvMessage }) => void
+	// A channel message was delivered to the local listeners. `duration` is the fan-out time in milliseconds.
+	deliver: (event: {
+		channel: string
+		recipients: number
+		duration: number
+	}) => void
+	// An error occurred (limits reached, Pub/Sub, history or state failures).
+	error: (error: Error) => void
+	// A message was received from the Pub/Sub.
+	'pubsub-in': (message: Record<string, any>) => void
+	// A message was published to the Pub/Sub.
+	'pubsub-out': (message: Record<string, any>) => void
+	// A client exceeded its `highWaterMark`.
+	'slow-consumer': (info: EvSlowConsumerInfo & { id: string }) => void
+	// A local client started listening to a channel or pattern.
+	listen: (event: {
+		id: string
+		channel: string
+		identity?: EvIdentity
+	}) => void
+	// A local client stopped listening to a channel or pattern, including when it disconnects.
+	unlisten: (event: { id: string; channel: string }) => void
+}
+
+// Store which keeps recently sent channel messages so reconnecting clients can replay them.
+export interface EvHistoryStore {
+	// Whether the store is shared between instances. Shared stores only record messages on the instance which sent them.
+	shared?: boolean
+	append(channel: string, msg: EvMessage): Promise<void>
+	range(channel: string, lastId: string): Promise<EvMessage[]>
+}
+
+// Transport which carries messages between instances, e.g. Redis, NATS or Postgres.
+export interface EvPubSubTransport<T = any> {
+	// Publishes a message to every other instance. Messages must not be delivered back to the sender.
+	send(msg: T): Promise<void>
+	// Registers or replaces the message handler.
+	onMessage(callback: (msg: T) => void): void
+	// Stops receiving messages. Messages can still be published.
+	unsubscribe(): Promise<void>
+	// Releases the underlying connections.
+	close(): Promise<void>
+	// Registers a listener of the connection events. Errors are forwarded to the manager's `error` event.
+	on?<K extends keyof EvPubSubEvents>(
+		event: K,
+		listener: EvPubSubEvents[K]
+	): void
+	// Publishes a message to the instances subscribed to `subject`. Required by the manager's `routing`.
+	publishTo?(subject: string, msg: T): Promise<void>
+	// Starts receiving the messages of `subject` through the message handler.
+	subscribeTo?(subject: string): Promise<void>
+	// Stops receiving the messages of `subject`.
+	unsubscribeFrom?(subject: string): Promise<void>
+}
+
+// Options of the manager's targeted routing.
+export interface EvRoutingOptions {
+	// Interval (in milliseconds) between two full advertisements of the instance. Instances silent for 3 intervals are forgotten. Default is 30000.
+	interval?: number
+}
+
+// Connection state of a Pub/Sub transport or adapter.
+export type EvConnectionState =
+	| 'connecting'
+	| 'connected'
+	| 'reconnecting'
+	| 'closed'
+
+// Events emitted by Pub/Sub transports and adapters.
+export interface EvPubSubEvents {
+	state: (state: EvConnectionState) => void
+	error: (error: Error) => void
+}
+
+// Operation of an RFC 6902 JSON Patch.
+export interface EvPatchOperation {
+	op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test'
+	// JSON Pointer (RFC 6901) of the target value.
+	path: string
+	value?: unknown
+	// JSON Pointer of the source value of `move` and `copy`.
+	from?: string
+}
+
+// Path of a value inside a state, e.g. 'rows.3.score' or ['rows', 3, 'score'].
+export type EvStatePath = string | ReadonlyArray<string | number>
+
+// Format of the updates broadcast by EvState.
+// - 'json-patch' : RFC 6902 JSON Patch.
+// - 'merge-patch' : RFC 7396 JSON Merge Patch, falls back to the full value when it can't express the change.
+export type EvStateDelta = 'json-patch' | 'merge-patch'
+
+// Value of a state with its version, as kept by an EvStateStore.
+export interface EvVersionedState<T = any> {
+	value: T
+	// Lamport clock of the value, incremented by every change.
+	version: number
+	// Instance which wrote the value, breaks ties between equal versions.
+	node?: string
+}
+
+// Storage which loads and persists state values.
+export interface EvStateStore {
+	// Set to true when the store is shared by the instances (e.g. Redis), so values received from other instances aren't stored again.
+	shared?: boolean
+	get(key: string): Promise<EvVersionedState | undefined>
+	// Stores the value unless a newer version is stored.
+	set(key: string, state: EvVersionedState): Promise<void>
+	// Stores the value only if the stored version is `expected` (0 when nothing is stored). Returns whether it was stored.
+	cas(key: string, expected: number, state: EvVersionedState): Promise<boolean>
+	delete(key: string): Promise<void>
 }
 
+// Resolves updates made concurrently on several instances.
+// - 'lww' : last writer wins, the highest version is kept and ties are broken by instance.
+// - function : merges the local and the remote value. It must return the same value on every instance.
+export type EvStateConflict<T> = 'lww' | ((local: T, remote: T) => T)
+
 // Options for initializing EvState.
 export interface EvStateAdapter {
 	publish(channel: string, message: any): Promise<void>
 	subscribe(channel: string, onMessage: (message: any) => void): Promise<void>
-	unsubscribe(channel: string): Promise<void>
+	// Removes the handler, or every handler of the channel when it's omitted.
+	unsubscribe(
+		channel: string,
+		onMessage?: (message: any) => void
+	): Promise<void>
 }
 
 export interface EvStateOptions<T> {
 	initialValue: T
 	channel: string
-	manager: EvStreamManager
+	manager: EvStreamManager<any>
 	key?: string
 	adapter?: EvStateAdapter
+	// Broadcast at most once every N milliseconds, the final value is always sent.
+	throttle?: number | EvThrottleOptions
+	// Broadcast changes as deltas instead of the full value. Subscribing clients receive a snapshot first.
+	delta?: EvStateDelta
+	// Storage from which the value is loaded and to which every change is persisted.
+	store?: EvStateStore
+	// Resolution of concurrent updates received through the adapter. Default is 'lww'.
+	conflict?: EvStateConflict<T>
+	// Sends every client its own view of the value instead of the value itself.
+	project?: EvStateProjection<T>
+}
+
+// Options of a state created by `EvStateManager`, the others are the options of the manager.
+export type EvManagedStateOptions<T> = Pick<
+	EvStateOptions<T>,
+	'throttle' | 'project'
+>
+
+// Local client receiving the messages of a channel.
+export interface EvListenerInfo {
+	id: string
+	// Identity of the client, set once it's authenticated.
+	identity?: EvIdentity
+}
+
+// Builds the view of a state value sent to one client, e.g. only the rows it may see.
+export type EvStateProjection<T> = (value: T, client: EvListenerInfo) => unknown
+
+// Options of a state holding one value per scope, the value of scope `x` is broadcast to `${channel}:x`.
+export interface EvScopedStateOptions<T> extends Omit<
+	EvStateOptions<T>,
+	'channel' | 'initialValue'
+> {
+	// Prefix of the channels of the scopes.
+	channel: string
+	// Value of a scope, called when the first client starts listening to it.
+	initialValue: (scope: string, client: EvListenerInfo) => T
+}
+
+// Client present on a channel.
+export interface EvPresenceMember<M = any> {
+	// Client ID.
+	id: string
+	// Metadata attached when the client joined.
+	meta: M
+}
+
+// Store which keeps the members of presence channels.
+export interface EvPresenceStore {
+	// Adds or refreshes a member. The member expires after `ttl` milliseconds unless refreshed.
+	set(channel: string, member: EvPresenceMember, ttl: number): Promise<void>
+	remove(channel: string, id: string): Promise<void>
+	// Returns the members which haven't expired.
+	members(channel: string): Promise<EvPresenceMember[]>
 }
 
 export type EvOnClose = (channels: string[]) => Promise<void>
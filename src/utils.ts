@@ -21,9 +21,70 @@ export function safeJsonParse(val: any) {
 	return ''
 }
 
+/**
+ * Returns the first of the `supported` encodings accepted by an `Accept-Encoding` header.
+ * Encodings with a `q=0` weight are refused, `*` accepts every encoding.
+ */
+export function negotiateEncoding<E extends string>(
+	header: string | undefined,
+	supported: ReadonlyArray<E>
+) {
+	if (!header) return
+
+	const weights = new Map<string, number>()
+
+	for (const part of header.toLowerCase().split(',')) {
+		const [name, ...params] = part.split(';').map((token) => token.trim())
+		const q = params.find((param) => param.startsWith('q='))
+
+		weights.set(name, q ? Number(q.slice(2)) : 1)
+	}
+
+	return supported.find(
+		(encoding) => (weights.get(encoding) ?? weights.get('*') ?? 0) > 0
+	)
+}
+
 export function uid(opts?: { prefix?: string; counter?: number }) {
 	const now = Date.now().toString(36)
 	const rand = Math.random().toString(26).substring(2, 10)
 
 	return `${opts?.prefix ? `${opts?.prefix}-` : ''}${now}-${rand}-${opts?.counter}`
 }
+
+let lastEventTime = 0
+let eventSequence = 0
+
+/**
+ * Generates a monotonic event id in the `<milliseconds>-<sequence>` format.
+ *
+ * Ids generated by the same process always compare greater than the previous one, even if the system clock moves backwards.
+ */
+export function eventId() {
+	const now = Date.now()
+
+	if (now > lastEventTime) {
+		lastEventTime = now
+		eventSequence = 0
+	} else {
+		eventSequence += 1
+	}
+
+	return `${lastEventTime}-${eventSequence}`
+}
+
+/**
+ * Compares two event ids generated by `eventId()`.
+ *
+ * @returns A negative number if `a` is older than `b`, a positive number if it is newer, `0` if equal and `undefined` if either id is not comparable.
+ */
+export function compareEventId(a: string, b: string) {
+	const left = /^(\d+)-(\d+)$/.exec(a)
+	const right = /^(\d+)-(\d+)$/.exec(b)
+
+	if (!left || !right) return undefined
+
+	return (
+		Number(left[1]) - Number(right[1]) || Number(left[2]) - Number(right[2])
+	)
+}
@@ -0,0 +1,100 @@
+import { EvValidationError } from './errors.js'
+import { isPattern, matchPattern } from './matcher.js'
+
+import type {
+	EvMessage,
+	EvSchemas,
+	EvValidationIssue,
+	EvValidator,
+} from './types.js'
+
+interface EvValidationResult {
+	value?: unknown
+	issues?: ReadonlyArray<EvValidationIssue>
+}
+
+/**
+ * Runs a Standard Schema or zod compatible validator.
+ *
+ * Returns the parsed value, which may differ from the input when the schema transforms it, or the issues.
+ */
+export function runValidator(
+	validator: EvValidator,
+	value: unknown
+): EvValidationResult {
+	if ('~standard' in validator) {
+		const result = validator['~standard'].validate(value)
+
+		if (result instanceof Promise) {
+			return {
+				issues: [{ message: 'asynchronous validators are not supported' }],
+			}
+		}
+
+		return result as EvValidationResult
+	}
+
+	const result = validator.safeParse(value) as {
+		success: boolean
+		data?: unknown
+		error?: { issues?: ReadonlyArray<EvValidationIssue> }
+	}
+
+	return result.success
+		? { value: result.data }
+		: { issues: result.error?.issues || [{ message: 'invalid data' }] }
+}
+
+/**
+ * Looks up and runs the validators of channel messages.
+ */
+export class EvSchemaRegistry {
+	#exact = new Map<string, Record<string, EvValidator>>()
+	#patterns: [string, Record<string, EvValidator>][] = []
+
+	constructor(schemas: EvSchemas) {
+		for (const [name, events] of Object.entries(schemas)) {
+			if (isPattern(name)) {
+				this.#patterns.push([name, events])
+			} else {
+				this.#exact.set(name, events)
+			}
+		}
+	}
+
+	/**
+	 * Validates the data of a channel message against every matching schema.
+	 *
+	 * Returns the message with the parsed data, throws `EvValidationError` when it is rejected.
+	 * Events without schema are not checked.
+	 */
+	validate(channel: string, msg: EvMessage): EvMessage {
+		const event = msg.event || 'message'
+		const validators: EvValidator[] = []
+
+		const exact = this.#exact.get(channel)?.[event]
+		if (exact) validators.push(exact)
+
+		for (const [pattern, events] of this.#patterns) {
+			if (events[event] && matchPattern(pattern, channel)) {
+				validators.push(events[event])
+			}
+		}
+
+		if (validators.length === 0) return msg
+
+		let data: unknown = msg.data
+
+		for (const validator of validators) {
+			const result = runValidator(validator, data)
+
+			if (result.issues) {
+				throw new EvValidationError(channel, event, [...result.issues])
+			}
+
+			data = result.value
+		}
+
+		return data === msg.data ? msg : { ...msg, data: data as EvMessage['data'] }
+	}
+}
@@ -0,0 +1,111 @@
+import { test } from 'node:test'
+
+import { EvMemoryPubSub } from '../dist/index.js'
+import { assertPubSubConformance } from '../dist/adapters/conformance.js'
+
+// Every pair of transports gets its own subject, so checks never receive each other's messages
+let count = 0
+const subject = () => `conformance-${(count += 1)}`
+
+/**
+ * Imports an optional driver, resolves to `undefined` when it isn't installed.
+ */
+const driver = (name) => import(name).catch(() => undefined)
+
+test('EvMemoryPubSub', async () => {
+	await assertPubSubConformance(() => {
+		const shared = subject()
+		return [
+			new EvMemoryPubSub({ subject: shared }),
+			new EvMemoryPubSub({ subject: shared }),
+		]
+	})
+})
+
+test(
+	'EvRedisPubSub / EvRedisStreamPubSub',
+	{ skip: !process.env.REDIS_URL && 'REDIS_URL is not set' },
+	async () => {
+		const { EvRedisPubSub, EvRedisStreamPubSub } =
+			await import('../dist/adapters/redis.js')
+		const url = new URL(process.env.REDIS_URL)
+		const options = {
+			host: url.hostname,
+			port: Number(url.port) || 6379,
+			password: url.password || undefined,
+		}
+
+		await assertPubSubConformance(() => {
+			const shared = subject()
+			return [
+				new EvRedisPubSub({ subject: shared, options }),
+				new EvRedisPubSub({ subject: shared, options }),
+			]
+		})
+
+		await assertPubSubConformance(() => {
+			const shared = subject()
+			return [
+				new EvRedisStreamPubSub({ subject: shared, options, block: 100 }),
+				new EvRedisStreamPubSub({ subject: shared, options, block: 100 }),
+			]
+		})
+	}
+)
+
+test(
+	'EvNatsPubSub',
+	{ skip: !process.env.NATS_URL && 'NATS_URL is not set' },
+	async (t) => {
+		const nats = await driver('nats')
+
+		if (!nats) return t.skip('nats is not installed')
+
+		const { EvNatsPubSub } = await import('../dist/adapters/nats.js')
+		const connection = await nats.connect({ servers: process.env.NATS_URL })
+
+		try {
+			await assertPubSubConformance(() => {
+				const shared = subject()
+				return [
+					new EvNatsPubSub({ subject: shared, connection }),
+					new EvNatsPubSub({ subject: shared, connection }),
+				]
+			})
+		} finally {
+			await connection.close()
+		}
+	}
+)
+
+test(
+	'EvPostgresPubSub',
+	{ skip: !process.env.DATABASE_URL && 'DATABASE_URL is not set' },
+	async (t) => {
+		const pg = await driver('pg')
+
+		if (!pg) return t.skip('pg is not installed')
+
+		const { EvPostgresPubSub } = await import('../dist/adapters/postgres.js')
+		const clients = []
+
+		const connect = async () => {
+			const client = new pg.default.Client(process.env.DATABASE_URL)
+			await client.connect()
+			clients.push(client)
+			return client
+		}
+
+		try {
+			await assertPubSubConformance(async () => {
+				const shared = subject()
+				return [
+					new EvPostgresPubSub({ subject: shared, client: await connect() }),
+					new EvPostgresPubSub({ subject: shared, client: await connect() }),
+				]
+			})
+		} finally {
+			await Promise.all(clients.map((client) => client.end()))
+		}
+	}
+)
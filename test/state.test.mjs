@@ -0,0 +1,163 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { setTimeout as sleep } from 'node:timers/promises'
+
+import {
+	EvMemoryPubSub,
+	EvMemoryStateStore,
+	EvState,
+	EvStreamManager,
+} from '../dist/index.js'
+import { EvStateManager } from '../dist/extensions/state-manager.js'
+
+/**
+ * In-memory {@link EvStateAdapter}, shared by the states created from the same bus.
+ */
+function memoryAdapter(bus = new Map()) {
+	return {
+		async publish(channel, message) {
+			const raw = JSON.stringify(message)
+
+			bus.get(channel)?.forEach((handler) => {
+				queueMicrotask(() => handler(JSON.parse(raw)))
+			})
+		},
+		async subscribe(channel, onMessage) {
+			if (!bus.has(channel)) bus.set(channel, new Set())
+			bus.get(channel).add(onMessage)
+		},
+		async unsubscribe(channel, onMessage) {
+			if (onMessage) bus.get(channel)?.delete(onMessage)
+			else bus.delete(channel)
+		},
+	}
+}
+
+test('EvState persists its changes to the store', async () => {
+	const store = new EvMemoryStateStore()
+	const manager = new EvStreamManager()
+	const state = new EvState({
+		channel: 'counter',
+		initialValue: 0,
+		manager,
+		store,
+	})
+
+	await state.ready
+	state.set(() => 1)
+	await sleep(10)
+
+	const stored = await store.get('counter')
+
+	assert.equal(stored.value, 1)
+	assert.equal(stored.version, 1)
+
+	// Another instance starts from the stored value
+	const loaded = new EvState({
+		channel: 'counter',
+		initialValue: 0,
+		manager: new EvStreamManager(),
+		store,
+	})
+
+	await loaded.ready
+	assert.equal(loaded.get(), 1)
+
+	state.dispose()
+	loaded.dispose()
+})
+
+test('EvState.cas only sets the value it was expected to replace', async () => {
+	const store = new EvMemoryStateStore()
+	const a = new EvState({
+		channel: 'cas',
+		initialValue: 0,
+		manager: new EvStreamManager(),
+		store,
+	})
+	const b = new EvState({
+		channel: 'cas',
+		initialValue: 0,
+		manager: new EvStreamManager(),
+		store,
+	})
+
+	await Promise.all([a.ready, b.ready])
+
+	assert.equal(await a.cas(0, 1), true)
+	assert.equal(a.get(), 1)
+
+	// `b` still holds 0, its write is refused and the stored value is loaded
+	assert.equal(await b.cas(0, 2), false)
+	assert.equal(b.get(), 1)
+
+	assert.equal(await a.cas(0, 3), false)
+	assert.equal(a.get(), 1)
+
+	a.dispose()
+	b.dispose()
+})
+
+test('EvState propagates its changes through the adapter', async () => {
+	const bus = new Map()
+	const a = new EvState({
+		channel: 'shared',
+		initialValue: { count: 0 },
+		manager: new EvStreamManager(),
+		adapter: memoryAdapter(bus),
+	})
+	const b = new EvState({
+		channel: 'shared',
+		initialValue: { count: 0 },
+		manager: new EvStreamManager(),
+		adapter: memoryAdapter(bus),
+	})
+
+	await sleep(10)
+
+	a.set((current) => ({ count: current.count + 1 }))
+	await sleep(10)
+	assert.deepEqual(b.get(), { count: 1 })
+
+	b.setIn('count', 5)
+	await sleep(10)
+	assert.deepEqual(a.get(), { count: 5 })
+
+	a.dispose()
+	b.dispose()
+})
+
+test('EvStateManager synchronizes the states over Pub/Sub', async () => {
+	const subject = 'state-manager'
+	const first = new EvStateManager({
+		manager: new EvStreamManager(),
+		pubsub: new EvMemoryPubSub({ subject }),
+	})
+	const second = new EvStateManager({
+		manager: new EvStreamManager(),
+		pubsub: new EvMemoryPubSub({ subject }),
+	})
+
+	first.createState('todos', [])
+	await sleep(10)
+	assert.equal(second.hasState('todos'), true)
+	assert.deepEqual(second.getState('todos').get(), [])
+
+	// A late-joining instance requests the existing states
+	const third = new EvStateManager({
+		manager: new EvStreamManager(),
+		pubsub: new EvMemoryPubSub({ subject }),
+	})
+
+	await sleep(10)
+	assert.equal(third.hasState('todos'), true)
+
+	second.removeState('todos')
+	await sleep(10)
+	assert.equal(first.hasState('todos'), false)
+	assert.equal(third.hasState('todos'), false)
+
+	first.close()
+	second.close()
+	third.close()
+})